@@ -0,0 +1,149 @@
+import { useState } from "react";
+import { Panel, Input, ReactSelect } from "@vkumov/react-cui-2.0";
+import { GenericTable } from "@vkumov/react-cui-2.0/Table";
+
+import {
+  calculateBudget,
+  copyProfile,
+  IFormState,
+  TrafficProfile,
+  trafficProfiles,
+  validateBudget,
+} from "../lib";
+import TrafficProfileEditor from "./TrafficProfileEditor";
+
+interface BudgetPanelProps {
+  form: IFormState;
+}
+
+/** Formats bits per second with a unit prefix. */
+function formatBitrate(bps: number) {
+  const units = ["bps", "kbps", "Mbps", "Gbps"];
+  let unit = 0;
+  while (bps >= 1000 && unit < units.length - 1) {
+    bps /= 1000;
+    unit++;
+  }
+  return `${bps.toFixed(2)} ${units[unit]}`;
+}
+
+/** Bandwidth budgeting of a traffic mix over a link of a given rate. */
+function BudgetPanel({ form }: BudgetPanelProps) {
+  const [linkRateKbps, setLinkRateKbps] = useState<number>(2000);
+  const [profile, setProfile] = useState<TrafficProfile>(() =>
+    copyProfile(trafficProfiles[0], form)
+  );
+
+  const linkRateBps = linkRateKbps * 1000;
+  const alert = validateBudget(form, profile, linkRateBps);
+  const budget = alert ? null : calculateBudget(form, profile, linkRateBps);
+
+  return (
+    <Panel>
+      <h3>Bandwidth Budget</h3>
+      <div className="row">
+        <div className="col">
+          <Input
+            label="Link Rate (kbps)"
+            type="number"
+            value={linkRateKbps}
+            onChange={(elm: React.ChangeEvent<HTMLInputElement>) => {
+              setLinkRateKbps(parseFloat(elm.currentTarget.value));
+            }}
+          ></Input>
+        </div>
+        <div className="col">
+          <ReactSelect
+            label="Rates"
+            options={[
+              { label: "Packets per second", value: true },
+              { label: "Relative weights (fill link)", value: false },
+            ]}
+            value={
+              profile.fixedRates
+                ? { label: "Packets per second", value: true }
+                : { label: "Relative weights (fill link)", value: false }
+            }
+            onChange={(selectedValue: { label: string; value: boolean }) => {
+              setProfile({ ...profile, fixedRates: selectedValue.value });
+            }}
+          ></ReactSelect>
+        </div>
+      </div>
+      <TrafficProfileEditor
+        profile={profile}
+        form={form}
+        rateLabel={profile.fixedRates ? "Packets per Second" : "Weight"}
+        onChange={setProfile}
+      />
+      {alert ? (
+        <div className="half-margin-top text-danger">{alert}</div>
+      ) : budget ? (
+        <div className="half-margin-top">
+          <GenericTable striped>
+            <thead>
+              <tr>
+                <th>Name</th>
+                <th>Encrypted Size (L3)</th>
+                <th>Size on the Wire (L2)</th>
+                <th>Packets per Second</th>
+                <th>Goodput</th>
+                <th>Application Goodput</th>
+                <th>Encrypted (L3)</th>
+                <th>On the Wire (L2)</th>
+              </tr>
+            </thead>
+            <tbody>
+              {budget.classes.map((result, index) => (
+                <tr key={index}>
+                  <td>{result.trafficClass.name}</td>
+                  <td>{result.totalSize}</td>
+                  <td>{result.wireSize}</td>
+                  <td>{result.packetsPerSecond.toFixed(1)}</td>
+                  <td>{formatBitrate(result.goodputBps)}</td>
+                  <td>{formatBitrate(result.applicationBps)}</td>
+                  <td>{formatBitrate(result.encryptedBps)}</td>
+                  <td>{formatBitrate(result.onWireBps)}</td>
+                </tr>
+              ))}
+              <tr>
+                <td>Total</td>
+                <td></td>
+                <td></td>
+                <td>{budget.packetsPerSecond.toFixed(1)}</td>
+                <td>{formatBitrate(budget.goodputBps)}</td>
+                <td>{formatBitrate(budget.applicationBps)}</td>
+                <td>{formatBitrate(budget.encryptedBps)}</td>
+                <td>{formatBitrate(budget.onWireBps)}</td>
+              </tr>
+            </tbody>
+          </GenericTable>
+          <GenericTable striped>
+            <tbody>
+              <tr>
+                <td>Overhead (IPsec, Overlay and Framing)</td>
+                <td>{formatBitrate(budget.overheadBps)}</td>
+              </tr>
+              <tr>
+                <td>Link Utilisation</td>
+                <td>{budget.utilisation.toFixed(1)}%</td>
+              </tr>
+              <tr>
+                <td>Link Utilisation Added by Overhead</td>
+                <td>{budget.overheadUtilisation.toFixed(1)}%</td>
+              </tr>
+            </tbody>
+          </GenericTable>
+          {budget.utilisation > 100 ? (
+            <div className="text-danger">
+              The traffic profile needs more than the link rate of{" "}
+              {formatBitrate(linkRateBps)}.
+            </div>
+          ) : null}
+        </div>
+      ) : null}
+    </Panel>
+  );
+}
+
+export default BudgetPanel;
@@ -0,0 +1,198 @@
+import { useState } from "react";
+import { Button, Panel } from "@vkumov/react-cui-2.0";
+import { GenericTable } from "@vkumov/react-cui-2.0/Table";
+
+import {
+  CaptureFlow,
+  compareFlow,
+  formFromFlow,
+  IFormState,
+  parseCapture,
+  validateForm,
+} from "../lib";
+
+interface CapturePanelProps {
+  form: IFormState;
+  onApply: (form: IFormState) => void;
+}
+
+/** Names a flow by protocol, addresses and SPI or GRE key. */
+function flowText(flow: CaptureFlow) {
+  const id =
+    flow.protocol === "GRE"
+      ? flow.gre?.key
+        ? ` key ${flow.spi}`
+        : ""
+      : ` SPI 0x${flow.spi.toString(16).padStart(8, "0")}`;
+  return `${flow.protocol} ${flow.source} → ${flow.destination}${id}`;
+}
+
+/**
+ * Checks the packet sizes in a pcap or pcapng capture against the form. The
+ * file is read in the browser and never uploaded.
+ */
+function CapturePanel({ form, onApply }: CapturePanelProps) {
+  const [flows, setFlows] = useState<CaptureFlow[]>([]);
+  const [messages, setMessages] = useState<string[]>([]);
+  const [selected, setSelected] = useState<number>(0);
+
+  const openCapture = (file: File) => {
+    file
+      .arrayBuffer()
+      .then((buffer) => {
+        const capture = parseCapture(buffer);
+        setFlows(capture.flows);
+        setSelected(0);
+        setMessages([
+          ...(capture.format
+            ? [
+                `Found ${capture.flows.length} flows in ${file.name} (${capture.format}).`,
+              ]
+            : []),
+          ...capture.messages,
+        ]);
+      })
+      .catch((error: Error) => {
+        setFlows([]);
+        setMessages([`Could not read ${file.name}: ${error.message}`]);
+      });
+  };
+
+  const alert = validateForm(form);
+  const flow = flows[selected];
+  const comparison = flow && !alert ? compareFlow(flow, form) : null;
+
+  return (
+    <Panel>
+      <h3>Capture Check</h3>
+      <div>
+        Open a pcap or pcapng capture to compare the sizes of its ESP, AH, NAT-T
+        and GRE packets with the sizes calculated for the form. The capture is
+        read in the browser and not uploaded.
+      </div>
+      <div className="half-margin-top">
+        <label className="btn btn--secondary btn--small">
+          Open Capture
+          <input
+            type="file"
+            accept=".pcap,.pcapng,.cap"
+            style={{ display: "none" }}
+            onChange={(elm: React.ChangeEvent<HTMLInputElement>) => {
+              const file = elm.currentTarget.files?.[0];
+              if (file) {
+                openCapture(file);
+              }
+              elm.currentTarget.value = "";
+            }}
+          />
+        </label>
+      </div>
+      {messages.length > 0 ? (
+        <ul className="half-margin-top">
+          {messages.map((message, index) => (
+            <li key={index}>{message}</li>
+          ))}
+        </ul>
+      ) : null}
+      {flows.length > 0 ? (
+        <GenericTable striped>
+          <thead>
+            <tr>
+              <th>Flow</th>
+              <th>Family</th>
+              <th>NAT-T</th>
+              <th>Packets</th>
+              <th>Block Size</th>
+              <th>ICV</th>
+              <th></th>
+            </tr>
+          </thead>
+          <tbody>
+            {flows.map((item, index) => (
+              <tr key={index}>
+                <td>{flowText(item)}</td>
+                <td>{item.family}</td>
+                <td>{item.natTraversal ? "Yes" : "No"}</td>
+                <td>{item.packets}</td>
+                <td>{item.blockSize ?? "Unknown"}</td>
+                <td>
+                  {item.ahIcvLength > 0
+                    ? `${item.ahIcvLength} (AH)`
+                    : item.icvLengths.join(" or ") || "Unknown"}
+                </td>
+                <td>
+                  <Button
+                    color={index === selected ? "primary" : "secondary"}
+                    size="small"
+                    onClick={() => setSelected(index)}
+                  >
+                    Compare
+                  </Button>
+                  <Button
+                    color="secondary"
+                    size="small"
+                    onClick={() => onApply(formFromFlow(item, form))}
+                  >
+                    Apply Family and NAT-T
+                  </Button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </GenericTable>
+      ) : null}
+      {flow && alert ? (
+        <div className="half-margin-top text-danger">{alert}</div>
+      ) : null}
+      {flow && comparison ? (
+        <div className="half-margin-top">
+          <h4>{flowText(flow)}</h4>
+          {comparison.mismatches.map((mismatch, index) => (
+            <div key={index} className="text-danger">
+              {mismatch}
+            </div>
+          ))}
+          <GenericTable striped>
+            <thead>
+              <tr>
+                <th>Observed Size</th>
+                <th>Packets</th>
+                <th>Inner Packet Size</th>
+                <th>
+                  {flow.protocol === "GRE"
+                    ? "Calculated GRE Size"
+                    : "Nearest Calculated Sizes"}
+                </th>
+                {flow.protocol === "GRE" ? <th>Encrypted Size</th> : null}
+              </tr>
+            </thead>
+            <tbody>
+              {comparison.sizes.map((size) => (
+                <tr
+                  key={size.size}
+                  className={size.match ? undefined : "text-danger"}
+                >
+                  <td>{size.size}</td>
+                  <td>{size.count}</td>
+                  <td>
+                    {size.innerSizes
+                      ? size.innerSizes.min === size.innerSizes.max
+                        ? size.innerSizes.min
+                        : `${size.innerSizes.min}–${size.innerSizes.max}`
+                      : "No match"}
+                  </td>
+                  <td>{size.predicted.join(", ")}</td>
+                  {flow.protocol === "GRE" ? (
+                    <td>{size.encryptedSize ?? "Invalid"}</td>
+                  ) : null}
+                </tr>
+              ))}
+            </tbody>
+          </GenericTable>
+        </div>
+      ) : null}
+    </Panel>
+  );
+}
+
+export default CapturePanel;
@@ -0,0 +1,206 @@
+import { useLayoutEffect, useRef, useState } from "react";
+import { Panel, Input, Button } from "@vkumov/react-cui-2.0";
+import { GenericTable } from "@vkumov/react-cui-2.0/Table";
+
+import {
+  cloneForm,
+  compareScenarios,
+  IFormState,
+  ipFamiliesOf,
+  Scenario,
+  validateMtu,
+} from "../lib";
+import PacketChart from "./PacketChart";
+import TransformForm from "./TransformForm";
+
+interface ComparePanelProps {
+  form: IFormState;
+  pathMtu: number;
+  onPathMtuChange: (pathMtu: number) => void;
+}
+
+/** Workspace calculating several configurations side by side. */
+function ComparePanel({ form, pathMtu, onPathMtuChange }: ComparePanelProps) {
+  const [scenarios, setScenarios] = useState<Scenario[]>([]);
+  const [editing, setEditing] = useState<number | null>(null);
+  const [panelWidth, setPanelWidth] = useState<number>(0);
+  const chartPanel = useRef<HTMLDivElement>(null);
+
+  // The chart panel only exists once a scenario was added
+  const hasScenarios = scenarios.length > 0;
+  useLayoutEffect(() => {
+    setPanelWidth(chartPanel.current?.getBoundingClientRect().width ?? 0);
+  }, [hasScenarios]);
+
+  const mtuAlert = validateMtu(pathMtu, ipFamiliesOf(form).outer);
+  const comparisons = compareScenarios(scenarios, mtuAlert ? 0 : pathMtu);
+  const baseline = comparisons.find((comparison) => comparison.result);
+
+  // All charts share one byte scale, set by the largest packet
+  const scaleBytes = Math.max(
+    ...comparisons.map((comparison) => comparison.result?.wireSize ?? 0),
+    1
+  );
+  const imageWidth = panelWidth ? panelWidth * 0.97 : 0;
+
+  const updateScenario = (index: number, scenario: Scenario) => {
+    const newScenarios = [...scenarios];
+    newScenarios[index] = scenario;
+    setScenarios(newScenarios);
+  };
+
+  return (
+    <Panel>
+      <h3>Compare Configurations</h3>
+      <div className="row">
+        <div className="col">
+          <Button
+            color="primary"
+            size="small"
+            onClick={() =>
+              setScenarios([
+                ...scenarios,
+                {
+                  name: `Configuration ${scenarios.length + 1}`,
+                  form: cloneForm(form),
+                },
+              ])
+            }
+          >
+            Add Current Configuration
+          </Button>
+        </div>
+        <div className="col">
+          <Input
+            label="MTU"
+            type="number"
+            value={pathMtu}
+            onChange={(elm: React.ChangeEvent<HTMLInputElement>) => {
+              onPathMtuChange(parseInt(elm.currentTarget.value));
+            }}
+          ></Input>
+        </div>
+      </div>
+      {mtuAlert ? (
+        <div className="half-margin-top text-danger">{mtuAlert}</div>
+      ) : null}
+      {scenarios.length === 0 ? (
+        <p className="half-margin-top">
+          Add the current configuration, change the form and add it again to
+          compare the results.
+        </p>
+      ) : (
+        <div>
+          <ul style={{ listStyle: "none" }}>
+            {scenarios.map((scenario, index) => (
+              <li key={index} className="half-margin-top">
+                <div className="row">
+                  <div className="col">
+                    <Input
+                      label="Name"
+                      value={scenario.name}
+                      onChange={(elm: React.ChangeEvent<HTMLInputElement>) => {
+                        updateScenario(index, {
+                          ...scenario,
+                          name: elm.currentTarget.value,
+                        });
+                      }}
+                    ></Input>
+                  </div>
+                  <div className="col">
+                    <Button
+                      color="secondary"
+                      size="small"
+                      onClick={() =>
+                        setEditing(editing === index ? null : index)
+                      }
+                    >
+                      {editing === index ? "Done" : "Edit"}
+                    </Button>
+                    <Button
+                      color="danger"
+                      size="small"
+                      onClick={() => {
+                        setScenarios(scenarios.filter((_, i) => i !== index));
+                        setEditing(null);
+                      }}
+                    >
+                      Remove
+                    </Button>
+                  </div>
+                </div>
+                {editing === index ? (
+                  <TransformForm
+                    form={scenario.form}
+                    onChange={(newForm) =>
+                      updateScenario(index, { ...scenario, form: newForm })
+                    }
+                  />
+                ) : null}
+              </li>
+            ))}
+          </ul>
+          <div ref={chartPanel} className="half-margin">
+            {comparisons.map((comparison, index) => (
+              <div key={index}>
+                <h5>{comparison.name}</h5>
+                {comparison.result ? (
+                  <PacketChart
+                    layers={comparison.result.layers}
+                    width={imageWidth}
+                    scaleBytes={scaleBytes}
+                  />
+                ) : (
+                  <div className="text-danger">{comparison.error}</div>
+                )}
+              </div>
+            ))}
+          </div>
+          <GenericTable striped>
+            <thead>
+              <tr>
+                <th>Configuration</th>
+                <th>Total Size</th>
+                <th>Overhead</th>
+                <th>Overhead %</th>
+                <th>Max Inner Size (MTU {pathMtu})</th>
+                <th>Total vs. {baseline?.name}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {comparisons.map((comparison, index) => {
+                const { result } = comparison;
+                if (!result) {
+                  return (
+                    <tr key={index}>
+                      <td>{comparison.name}</td>
+                      <td colSpan={5}>{comparison.error}</td>
+                    </tr>
+                  );
+                }
+                const delta =
+                  result.totalSize - (baseline?.result?.totalSize ?? 0);
+                return (
+                  <tr key={index}>
+                    <td>{comparison.name}</td>
+                    <td>{result.totalSize}</td>
+                    <td>{result.overhead}</td>
+                    <td>{result.overheadPercent.toFixed(1)}%</td>
+                    <td>
+                      {mtuAlert
+                        ? "-"
+                        : comparison.maxInnerSize ?? "Does not fit"}
+                    </td>
+                    <td>{delta > 0 ? `+${delta}` : delta}</td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </GenericTable>
+        </div>
+      )}
+    </Panel>
+  );
+}
+
+export default ComparePanel;
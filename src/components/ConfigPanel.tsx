@@ -0,0 +1,62 @@
+import { useState } from "react";
+import { Panel, ReactSelect } from "@vkumov/react-cui-2.0";
+
+import {
+  ConfigPlatform,
+  configPlatforms,
+  generateConfig,
+  IFormState,
+  ipFamiliesOf,
+  validateMtu,
+} from "../lib";
+
+interface ConfigPanelProps {
+  form: IFormState;
+  pathMtu: number;
+}
+
+/** Device configuration for the selected transform and path MTU. */
+function ConfigPanel({ form, pathMtu }: ConfigPanelProps) {
+  const [platform, setPlatform] = useState<ConfigPlatform>(configPlatforms[0]);
+  const alert = validateMtu(pathMtu, ipFamiliesOf(form).outer);
+  const generated = alert ? null : generateConfig(form, platform, pathMtu);
+
+  return (
+    <Panel>
+      <h3>Configuration</h3>
+      <ReactSelect
+        label="Platform"
+        value={{ label: platform, value: platform }}
+        options={configPlatforms.map((platform) => {
+          return { value: platform, label: platform };
+        })}
+        onChange={(selectedValue: {
+          label: ConfigPlatform;
+          value: ConfigPlatform;
+        }) => {
+          setPlatform(selectedValue.value);
+        }}
+      ></ReactSelect>
+      {generated === null ? (
+        <div className="half-margin-top text-danger">{alert}</div>
+      ) : (
+        <>
+          {generated.unsupported.length > 0 ? (
+            <div className="half-margin-top text-danger">
+              {platform} can not express every setting, the configuration below
+              leaves these out:
+              <ul>
+                {generated.unsupported.map((text) => (
+                  <li key={text}>{text}</li>
+                ))}
+              </ul>
+            </div>
+          ) : null}
+          <pre className="half-margin-top">{generated.config}</pre>
+        </>
+      )}
+    </Panel>
+  );
+}
+
+export default ConfigPanel;
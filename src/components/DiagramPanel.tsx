@@ -0,0 +1,156 @@
+import { Panel } from "@vkumov/react-cui-2.0";
+import { GenericTable } from "@vkumov/react-cui-2.0/Table";
+
+import {
+  buildByteDiagram,
+  DIAGRAM_ROW_BYTES,
+  DiagramCell,
+  PacketDetail,
+} from "../lib";
+import { packetColorOf } from "./packetColors";
+
+/** Width of one byte in pixels. */
+const BYTE_WIDTH = 160;
+/** Height of one row in pixels. */
+const ROW_HEIGHT = 30;
+/** Space for the byte offsets on the left and the bit ruler on top. */
+const OFFSET_WIDTH = 50;
+const RULER_HEIGHT = 32;
+
+interface DiagramPanelProps {
+  fields: PacketDetail[];
+}
+
+/** RFC-style diagram of the packet, 32 bits per row at real byte offsets. */
+function DiagramPanel({ fields }: DiagramPanelProps) {
+  const diagram = buildByteDiagram(fields);
+  const width = OFFSET_WIDTH + DIAGRAM_ROW_BYTES * BYTE_WIDTH + 2;
+  const height = RULER_HEIGHT + diagram.rows.length * ROW_HEIGHT + 2;
+  // Offsets where a header or group of fields starts get a heavy border
+  const headerStarts = new Set(diagram.headers.map((header) => header.offset));
+
+  const cellLabel = (cell: DiagramCell, folded: number) => {
+    const field = diagram.fields[cell.field];
+    if (folded > 1) {
+      return `${field.text} (${folded * DIAGRAM_ROW_BYTES} more bytes)`;
+    }
+    const first = cell.start === field.offset % DIAGRAM_ROW_BYTES;
+    return first && cell.bytes < field.bytes
+      ? `${field.text} (${field.bytes})`
+      : field.text;
+  };
+
+  return (
+    <Panel>
+      <h3>Byte-Offset Diagram</h3>
+      <div>
+        Offsets are in hex from the first byte of the outer IP header; add the
+        link-layer header length to match Wireshark. Heavy borders mark where
+        each header starts.
+      </div>
+      <div className="half-margin-top" style={{ overflowX: "auto" }}>
+        <svg width={width} height={height} fontSize={12}>
+          {Array.from({ length: DIAGRAM_ROW_BYTES * 8 }, (_, bit) => (
+            <g key={bit}>
+              {bit % 10 === 0 ? (
+                <text x={OFFSET_WIDTH + bit * (BYTE_WIDTH / 8) + 2} y={12}>
+                  {bit / 10}
+                </text>
+              ) : null}
+              <text
+                x={OFFSET_WIDTH + bit * (BYTE_WIDTH / 8) + 2}
+                y={26}
+                fontSize={9}
+              >
+                {bit % 10}
+              </text>
+            </g>
+          ))}
+          {diagram.rows.map((row, rowIndex) => {
+            const y = RULER_HEIGHT + rowIndex * ROW_HEIGHT;
+            return (
+              <g key={row.offset}>
+                <text x={2} y={y + 19}>
+                  {row.offset.toString(16).padStart(4, "0")}
+                </text>
+                {row.cells.map((cell) => {
+                  const field = diagram.fields[cell.field];
+                  const x = OFFSET_WIDTH + cell.start * BYTE_WIDTH;
+                  const cellWidth = cell.bytes * BYTE_WIDTH;
+                  const clipId = `diagram-${row.offset}-${cell.start}`;
+                  const startsHeader =
+                    row.offset + cell.start === field.offset &&
+                    headerStarts.has(field.offset);
+                  return (
+                    <g key={cell.start}>
+                      <clipPath id={clipId}>
+                        <rect
+                          x={x}
+                          y={y}
+                          width={cellWidth}
+                          height={ROW_HEIGHT}
+                        />
+                      </clipPath>
+                      <rect
+                        x={x}
+                        y={y}
+                        width={cellWidth}
+                        height={ROW_HEIGHT}
+                        fill={packetColorOf(field.group ?? field.text)}
+                        stroke="black"
+                        strokeDasharray={row.rows > 1 ? "4 2" : undefined}
+                      />
+                      {startsHeader ? (
+                        <line
+                          x1={x}
+                          y1={y}
+                          x2={x}
+                          y2={y + ROW_HEIGHT}
+                          stroke="black"
+                          strokeWidth={4}
+                        />
+                      ) : null}
+                      <text x={x + 4} y={y + 19} clipPath={`url(#${clipId})`}>
+                        {cellLabel(cell, row.rows)}
+                      </text>
+                    </g>
+                  );
+                })}
+              </g>
+            );
+          })}
+        </svg>
+      </div>
+      <GenericTable striped>
+        <thead>
+          <tr>
+            <th>Header</th>
+            <th>Offset</th>
+            <th>Length</th>
+            <th>4-Byte Aligned</th>
+          </tr>
+        </thead>
+        <tbody>
+          {diagram.headers.map((header) => (
+            <tr key={header.offset}>
+              <td>{header.label}</td>
+              <td>
+                {header.offset} (0x{header.offset.toString(16)})
+              </td>
+              <td>{header.size}</td>
+              <td className={header.aligned ? undefined : "text-warning"}>
+                {header.aligned
+                  ? "Yes"
+                  : `No (offset ${header.offset % DIAGRAM_ROW_BYTES}, length ${
+                      header.size % DIAGRAM_ROW_BYTES
+                    } mod 4)`}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </GenericTable>
+    </Panel>
+  );
+}
+
+export default DiagramPanel;
@@ -0,0 +1,68 @@
+import { Button } from "@vkumov/react-cui-2.0";
+
+import {
+  IFormState,
+  PacketResult,
+  resultToCsv,
+  resultToJson,
+  resultToMarkdown,
+} from "../lib";
+import {
+  CHART_IMAGE_HEIGHT,
+  packetChartSvg,
+  svgToPng,
+} from "../utils/chartImage";
+import { downloadBlob, downloadFile } from "../utils/download";
+
+/** Width of exported chart images in pixels. */
+const EXPORT_WIDTH = 1000;
+
+interface ExportButtonsProps {
+  form: IFormState;
+  result: PacketResult;
+  onShowReport: () => void;
+}
+
+/** Downloads of the chart and summary, and the printable report. */
+function ExportButtons({ form, result, onShowReport }: ExportButtonsProps) {
+  const chartSvg = () =>
+    packetChartSvg(result.layers, EXPORT_WIDTH, result.wireSize);
+  const button = (label: string, onClick: () => void) => (
+    <Button color="secondary" size="small" onClick={onClick}>
+      {label}
+    </Button>
+  );
+
+  return (
+    <div className="half-margin-top">
+      {button("Chart SVG", () =>
+        downloadFile("ipsec-packet.svg", chartSvg(), "image/svg+xml")
+      )}
+      {button("Chart PNG", () =>
+        svgToPng(chartSvg(), EXPORT_WIDTH, CHART_IMAGE_HEIGHT, (png) =>
+          downloadBlob("ipsec-packet.png", png)
+        )
+      )}
+      {button("Summary CSV", () =>
+        downloadFile("ipsec-packet.csv", resultToCsv(form, result), "text/csv")
+      )}
+      {button("Summary Markdown", () =>
+        downloadFile(
+          "ipsec-packet.md",
+          resultToMarkdown(form, result),
+          "text/markdown"
+        )
+      )}
+      {button("Summary JSON", () =>
+        downloadFile(
+          "ipsec-packet.json",
+          resultToJson(form, result),
+          "application/json"
+        )
+      )}
+      {button("Printable Report", onShowReport)}
+    </div>
+  );
+}
+
+export default ExportButtons;
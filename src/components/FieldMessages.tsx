@@ -0,0 +1,30 @@
+import { Diagnostic } from "../lib";
+
+interface FieldMessagesProps {
+  diagnostics?: Diagnostic[];
+  // Dotted path of the setting, e.g. `transform.espEncr`
+  field: string;
+}
+
+/** Errors and advisories for one setting, shown below its input. */
+function FieldMessages({ diagnostics = [], field }: FieldMessagesProps) {
+  const messages = diagnostics.filter(
+    (diagnostic) => diagnostic.field === field
+  );
+  return (
+    <>
+      {messages.map((diagnostic, index) => (
+        <div
+          key={index}
+          className={
+            diagnostic.severity === "Error" ? "text-danger" : "text-warning"
+          }
+        >
+          {diagnostic.message}
+        </div>
+      ))}
+    </>
+  );
+}
+
+export default FieldMessages;
@@ -0,0 +1,175 @@
+import { useState } from "react";
+import { Panel, Input, ReactSelect, Switch } from "@vkumov/react-cui-2.0";
+import { GenericTable } from "@vkumov/react-cui-2.0/Table";
+
+import {
+  defaultFragmentationSettings,
+  DfBitPolicy,
+  dfBitPolicies,
+  FragmentationSettings,
+  IFormState,
+  ipFamiliesOf,
+  simulateFragmentation,
+  validateMtu,
+} from "../lib";
+
+/** Fragments listed before the table is cut short. */
+const MAX_LISTED_FRAGMENTS = 64;
+
+interface FragmentPanelProps {
+  form: IFormState;
+  pathMtu: number;
+  onPathMtuChange: (pathMtu: number) => void;
+}
+
+/** Shows how the encrypted packet is fragmented or dropped on a link. */
+function FragmentPanel({ form, pathMtu, onPathMtuChange }: FragmentPanelProps) {
+  const [settings, setSettings] = useState<FragmentationSettings>(
+    defaultFragmentationSettings
+  );
+
+  const families = ipFamiliesOf(form);
+  const alert = validateMtu(pathMtu, families.outer);
+  const result = alert ? null : simulateFragmentation(form, pathMtu, settings);
+
+  const outcomeText = () => {
+    if (!result) {
+      return "";
+    }
+    switch (result.outcome) {
+      case "None":
+        return `The ${result.encryptedSize} byte encrypted packet fits in the MTU of ${pathMtu} bytes.`;
+      case "Before encryption":
+        return `The inner packet is fragmented before encryption into ${result.fragments.length} packets that are encrypted separately.`;
+      case "After encryption":
+        return `The ${result.encryptedSize} byte encrypted packet is fragmented after encryption into ${result.fragments.length} fragments, which the peer must reassemble before decrypting.`;
+      case "Dropped":
+        if (!result.icmp) {
+          return `The ${result.encryptedSize} byte encrypted packet is dropped because the outer headers repeated in every fragment leave no room for fragment data.`;
+        }
+        return `The ${result.encryptedSize} byte encrypted packet is dropped because the outer header has DF set.`;
+    }
+  };
+
+  return (
+    <Panel>
+      <h3>Fragmentation</h3>
+      <div className="row">
+        <div className="col">
+          <Input
+            label="Link MTU"
+            type="number"
+            value={pathMtu}
+            onChange={(elm: React.ChangeEvent<HTMLInputElement>) => {
+              onPathMtuChange(parseInt(elm.currentTarget.value));
+            }}
+          ></Input>
+        </div>
+        {families.outer === "IPv4" ? (
+          <div className="col">
+            <ReactSelect
+              label="Outer DF Bit"
+              value={{ label: settings.dfBit, value: settings.dfBit }}
+              options={dfBitPolicies.map((policy) => {
+                return { label: policy, value: policy };
+              })}
+              onChange={(selectedValue: {
+                label: DfBitPolicy;
+                value: DfBitPolicy;
+              }) => {
+                setSettings({ ...settings, dfBit: selectedValue.value });
+              }}
+            ></ReactSelect>
+          </div>
+        ) : null}
+      </div>
+      <div className="row half-margin-top">
+        {form.innerProtocol === "IPv4" ? (
+          <div className="col">
+            <Switch
+              checked={settings.innerDf}
+              left="Inner DF Set"
+              onChange={() => {
+                setSettings({ ...settings, innerDf: !settings.innerDf });
+              }}
+            ></Switch>
+          </div>
+        ) : null}
+        <div className="col">
+          <Switch
+            checked={settings.preFragmentation}
+            left="Fragment Before Encryption"
+            onChange={() => {
+              setSettings({
+                ...settings,
+                preFragmentation: !settings.preFragmentation,
+              });
+            }}
+          ></Switch>
+        </div>
+      </div>
+      {alert ? (
+        <div className="half-margin-top text-danger">{alert}</div>
+      ) : result ? (
+        <div className="half-margin-top">
+          <p>{outcomeText()}</p>
+          {result.icmp ? (
+            <p className="text-danger">
+              The sender receives an {result.icmp.message} reporting an MTU of{" "}
+              {result.icmp.mtu} bytes.
+            </p>
+          ) : null}
+          {result.fragments.length > 0 ? (
+            <GenericTable striped>
+              <thead>
+                <tr>
+                  <th>#</th>
+                  <th>Offset</th>
+                  <th>Data</th>
+                  <th>Fields</th>
+                  <th>Size</th>
+                  <th>On the Wire</th>
+                </tr>
+              </thead>
+              <tbody>
+                {result.fragments
+                  .slice(0, MAX_LISTED_FRAGMENTS)
+                  .map((fragment, index) => (
+                    <tr key={index}>
+                      <td>{index + 1}</td>
+                      <td>{fragment.offset}</td>
+                      <td>{fragment.dataSize}</td>
+                      <td>
+                        {fragment.fields
+                          .map((field) => `${field.text} (${field.bytes})`)
+                          .join(", ")}
+                      </td>
+                      <td>{fragment.size}</td>
+                      <td>{fragment.wireSize}</td>
+                    </tr>
+                  ))}
+                {result.fragments.length > MAX_LISTED_FRAGMENTS ? (
+                  <tr>
+                    <td colSpan={6}>
+                      {result.fragments.length - MAX_LISTED_FRAGMENTS} more
+                      fragments not shown
+                    </td>
+                  </tr>
+                ) : null}
+              </tbody>
+            </GenericTable>
+          ) : null}
+          {result.extraPackets > 0 ? (
+            <p>
+              Fragmentation adds {result.extraPackets} packets and{" "}
+              {result.extraBytes} bytes ({result.extraWireBytes} bytes on the
+              wire).
+            </p>
+          ) : null}
+        </div>
+      ) : null}
+    </Panel>
+  );
+}
+
+export default FragmentPanel;
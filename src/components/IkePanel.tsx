@@ -0,0 +1,374 @@
+import { useState } from "react";
+import {
+  Panel,
+  Input,
+  ReactSelect,
+  Switch,
+  Button,
+} from "@vkumov/react-cui-2.0";
+import { GenericTable } from "@vkumov/react-cui-2.0/Table";
+
+import {
+  calculateIke,
+  defaultIkeSettings,
+  IFormState,
+  IkeEncryption,
+  ikeEncryptions,
+  IkeKeyExchange,
+  ikeKeyExchanges,
+  IkeKeyType,
+  ikeKeyTypes,
+  IkeSettings,
+  IkeTransmission,
+  IPVersion,
+  ipVersions,
+  MAX_ADDITIONAL_KEY_EXCHANGES,
+  MAX_CERTIFICATES,
+  validateIke,
+} from "../lib";
+
+interface IkePanelProps {
+  form: IFormState;
+  pathMtu: number;
+  onPathMtuChange: (pathMtu: number) => void;
+}
+
+/** Describes how a message crosses the path. */
+function transmissionText(transmission: IkeTransmission) {
+  if (transmission.ikeFragmentation) {
+    return `${transmission.packets} IKE fragments (largest ${transmission.largestPacket})`;
+  }
+  if (transmission.ipFragmentation) {
+    return `${transmission.packets} IP fragments (largest ${transmission.largestPacket})`;
+  }
+  return `1 packet (${transmission.packetSize})`;
+}
+
+/** Sizes of the IKEv2 messages setting up the IKE SA and first Child SA. */
+function IkePanel({ form, pathMtu, onPathMtuChange }: IkePanelProps) {
+  const [settings, setSettings] = useState<IkeSettings>(() => ({
+    ...defaultIkeSettings,
+    ipProtocol: form.transport.ipProtocol,
+    selectorProtocol: form.innerProtocol,
+  }));
+
+  const alert = validateIke(settings, pathMtu);
+  const messages = alert ? [] : calculateIke(settings, pathMtu);
+
+  const numberInput = (
+    label: string,
+    key: "idLength" | "certificateRequests" | "trafficSelectors" | "vendorIds"
+  ) => (
+    <Input
+      label={label}
+      type="number"
+      value={settings[key]}
+      onChange={(elm: React.ChangeEvent<HTMLInputElement>) => {
+        setSettings({ ...settings, [key]: parseInt(elm.currentTarget.value) });
+      }}
+    ></Input>
+  );
+
+  return (
+    <Panel>
+      <h3>IKEv2 Message Sizes</h3>
+      <div className="row">
+        <div className="col">
+          <ul style={{ listStyle: "none" }}>
+            <li className="half-margin-top">
+              <Input
+                label="MTU"
+                type="number"
+                value={pathMtu}
+                onChange={(elm: React.ChangeEvent<HTMLInputElement>) => {
+                  onPathMtuChange(parseInt(elm.currentTarget.value));
+                }}
+              ></Input>
+            </li>
+            <li className="half-margin-top">
+              <ReactSelect
+                label="IKE IP Version"
+                value={{
+                  label: settings.ipProtocol,
+                  value: settings.ipProtocol,
+                }}
+                options={ipVersions.map((version) => {
+                  return { value: version, label: version };
+                })}
+                onChange={(selectedValue: {
+                  label: IPVersion;
+                  value: IPVersion;
+                }) => {
+                  setSettings({ ...settings, ipProtocol: selectedValue.value });
+                }}
+              ></ReactSelect>
+            </li>
+            <li className="half-margin-top">
+              <ReactSelect
+                label="IKE Encryption"
+                value={{
+                  label: settings.encryption,
+                  value: settings.encryption,
+                }}
+                options={ikeEncryptions.map((encryption) => {
+                  return { value: encryption, label: encryption };
+                })}
+                onChange={(selectedValue: {
+                  label: IkeEncryption;
+                  value: IkeEncryption;
+                }) => {
+                  setSettings({ ...settings, encryption: selectedValue.value });
+                }}
+              ></ReactSelect>
+            </li>
+            <li className="half-margin-top">
+              <ReactSelect
+                label="Key Exchange (IKE_SA_INIT)"
+                value={{
+                  label: settings.keyExchange,
+                  value: settings.keyExchange,
+                }}
+                options={ikeKeyExchanges.map((keyExchange) => {
+                  return { value: keyExchange, label: keyExchange };
+                })}
+                onChange={(selectedValue: {
+                  label: IkeKeyExchange;
+                  value: IkeKeyExchange;
+                }) => {
+                  setSettings({
+                    ...settings,
+                    keyExchange: selectedValue.value,
+                  });
+                }}
+              ></ReactSelect>
+            </li>
+            {settings.additionalKeyExchanges.map((keyExchange, index) => (
+              <li key={index} className="half-margin-top">
+                <ReactSelect
+                  label={`Additional Key Exchange ${index + 1} (RFC 9370)`}
+                  value={{ label: keyExchange, value: keyExchange }}
+                  options={ikeKeyExchanges.map((keyExchange) => {
+                    return { value: keyExchange, label: keyExchange };
+                  })}
+                  onChange={(selectedValue: {
+                    label: IkeKeyExchange;
+                    value: IkeKeyExchange;
+                  }) => {
+                    const additionalKeyExchanges = [
+                      ...settings.additionalKeyExchanges,
+                    ];
+                    additionalKeyExchanges[index] = selectedValue.value;
+                    setSettings({ ...settings, additionalKeyExchanges });
+                  }}
+                ></ReactSelect>
+                <Button
+                  color="danger"
+                  size="small"
+                  onClick={() =>
+                    setSettings({
+                      ...settings,
+                      additionalKeyExchanges:
+                        settings.additionalKeyExchanges.filter(
+                          (_, i) => i !== index
+                        ),
+                    })
+                  }
+                >
+                  Remove
+                </Button>
+              </li>
+            ))}
+            {settings.additionalKeyExchanges.length <
+            MAX_ADDITIONAL_KEY_EXCHANGES ? (
+              <li className="half-margin-top">
+                <Button
+                  color="secondary"
+                  size="small"
+                  onClick={() =>
+                    setSettings({
+                      ...settings,
+                      additionalKeyExchanges: [
+                        ...settings.additionalKeyExchanges,
+                        "Group 36 (ML-KEM-768)",
+                      ],
+                    })
+                  }
+                >
+                  Add Key Exchange
+                </Button>
+              </li>
+            ) : null}
+          </ul>
+        </div>
+        <div className="col">
+          <ul style={{ listStyle: "none" }}>
+            {settings.certificates.length === 0 ? (
+              <li className="half-margin-top">
+                Authentication with a pre-shared key.
+              </li>
+            ) : null}
+            {settings.certificates.map((keyType, index) => (
+              <li key={index} className="half-margin-top">
+                <ReactSelect
+                  label={
+                    index === 0
+                      ? "End-Entity Certificate Key"
+                      : `CA Certificate ${index} Key`
+                  }
+                  value={{ label: keyType, value: keyType }}
+                  options={ikeKeyTypes.map((keyType) => {
+                    return { value: keyType, label: keyType };
+                  })}
+                  onChange={(selectedValue: {
+                    label: IkeKeyType;
+                    value: IkeKeyType;
+                  }) => {
+                    const certificates = [...settings.certificates];
+                    certificates[index] = selectedValue.value;
+                    setSettings({ ...settings, certificates });
+                  }}
+                ></ReactSelect>
+                <Button
+                  color="danger"
+                  size="small"
+                  onClick={() =>
+                    setSettings({
+                      ...settings,
+                      certificates: settings.certificates.filter(
+                        (_, i) => i !== index
+                      ),
+                    })
+                  }
+                >
+                  Remove
+                </Button>
+              </li>
+            ))}
+            {settings.certificates.length < MAX_CERTIFICATES ? (
+              <li className="half-margin-top">
+                <Button
+                  color="secondary"
+                  size="small"
+                  onClick={() =>
+                    setSettings({
+                      ...settings,
+                      certificates: [
+                        ...settings.certificates,
+                        settings.certificates[
+                          settings.certificates.length - 1
+                        ] ?? "RSA 2048",
+                      ],
+                    })
+                  }
+                >
+                  Add Certificate
+                </Button>
+              </li>
+            ) : null}
+            {settings.certificates.length > 0 ? (
+              <li className="half-margin-top">
+                {numberInput("Trust Anchors in CERTREQ", "certificateRequests")}
+              </li>
+            ) : null}
+          </ul>
+        </div>
+        <div className="col">
+          <ul style={{ listStyle: "none" }}>
+            <li className="half-margin-top">
+              {numberInput("ID Length", "idLength")}
+            </li>
+            <li className="half-margin-top">
+              <ReactSelect
+                label="Traffic Selector IP Version"
+                value={{
+                  label: settings.selectorProtocol,
+                  value: settings.selectorProtocol,
+                }}
+                options={ipVersions.map((version) => {
+                  return { value: version, label: version };
+                })}
+                onChange={(selectedValue: {
+                  label: IPVersion;
+                  value: IPVersion;
+                }) => {
+                  setSettings({
+                    ...settings,
+                    selectorProtocol: selectedValue.value,
+                  });
+                }}
+              ></ReactSelect>
+            </li>
+            <li className="half-margin-top">
+              {numberInput("Traffic Selectors", "trafficSelectors")}
+            </li>
+            <li className="half-margin-top">
+              {numberInput("Vendor IDs", "vendorIds")}
+            </li>
+            <li className="half-margin-top">
+              <Switch
+                checked={settings.configPayload}
+                left="Configuration Payload (Remote Access)"
+                onChange={() =>
+                  setSettings({
+                    ...settings,
+                    configPayload: !settings.configPayload,
+                  })
+                }
+              ></Switch>
+            </li>
+          </ul>
+        </div>
+      </div>
+      {alert ? (
+        <div className="half-margin-top text-danger">{alert}</div>
+      ) : (
+        <GenericTable striped>
+          <thead>
+            <tr>
+              <th>Message</th>
+              <th>IKE Size</th>
+              <th>Port 500</th>
+              <th>Port 4500 (Non-ESP Marker)</th>
+              <th>Payloads</th>
+            </tr>
+          </thead>
+          <tbody>
+            {messages.map((message) => (
+              <tr key={message.name}>
+                <td>{message.name}</td>
+                <td>{message.size}</td>
+                {[message.direct, message.natTraversal].map(
+                  (transmission, index) => (
+                    <td
+                      key={index}
+                      className={
+                        transmission.ipFragmentation ? "text-danger" : undefined
+                      }
+                    >
+                      {transmissionText(transmission)}
+                    </td>
+                  )
+                )}
+                <td>
+                  {message.payloads
+                    .filter((payload) => payload.bytes > 0)
+                    .map((payload) => `${payload.text} (${payload.bytes})`)
+                    .join(", ")}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </GenericTable>
+      )}
+      {messages.some((message) => message.direct.ipFragmentation) ? (
+        <div className="half-margin-top text-danger">
+          IKE_SA_INIT is not encrypted and cannot use IKE fragmentation. Move
+          large key exchanges to RFC 9370 additional key exchanges to avoid IP
+          fragmentation.
+        </div>
+      ) : null}
+    </Panel>
+  );
+}
+
+export default IkePanel;
@@ -0,0 +1,69 @@
+import { useState } from "react";
+import { Button, Panel } from "@vkumov/react-cui-2.0";
+
+import { IFormState, importConfig, ImportResult } from "../lib";
+
+interface ImportPanelProps {
+  form: IFormState;
+  onImport: (form: IFormState) => void;
+}
+
+/** Fills the form from a pasted Cisco, strongSwan or Linux configuration. */
+function ImportPanel({ form, onImport }: ImportPanelProps) {
+  const [text, setText] = useState<string>("");
+  const [imported, setImported] = useState<ImportResult | null>(null);
+
+  return (
+    <Panel>
+      <h3>Import Configuration</h3>
+      <div className="form-group">
+        <div className="form-group__text">
+          <textarea
+            id="importText"
+            rows={6}
+            value={text}
+            placeholder="crypto ipsec transform-set TS esp-gcm 256, show crypto ipsec sa, aes256gcm16-prfsha384-ecp384 or ip xfrm state"
+            onChange={(elm: React.ChangeEvent<HTMLTextAreaElement>) => {
+              setText(elm.currentTarget.value);
+            }}
+          ></textarea>
+          <label htmlFor="importText">
+            Transform set, SA output, proposal or xfrm state
+          </label>
+        </div>
+      </div>
+      <Button
+        color="secondary"
+        size="small"
+        className="half-margin-top"
+        disabled={!text.trim()}
+        onClick={() => {
+          const result = importConfig(text, form);
+          setImported(result);
+          if (result.format) {
+            onImport(result.form);
+          }
+        }}
+      >
+        Import
+      </Button>
+      {imported ? (
+        <div className="half-margin-top">
+          {imported.format ? <div>Imported as {imported.format}.</div> : null}
+          {imported.unmapped.length > 0 ? (
+            <div className="text-danger">
+              {imported.format ? "Not mapped to the calculator:" : null}
+              <ul>
+                {imported.unmapped.map((text, index) => (
+                  <li key={index}>{text}</li>
+                ))}
+              </ul>
+            </div>
+          ) : null}
+        </div>
+      ) : null}
+    </Panel>
+  );
+}
+
+export default ImportPanel;
@@ -0,0 +1,109 @@
+import { Input, ReactSelect, Switch } from "@vkumov/react-cui-2.0";
+
+import {
+  Diagnostic,
+  InnerSettings,
+  InnerTransport,
+  IPVersion,
+  innerTransports,
+} from "../lib";
+import FieldMessages from "./FieldMessages";
+
+interface InnerFieldsProps {
+  settings: InnerSettings;
+  innerProtocol: IPVersion;
+  // Errors and advisories of the form the settings belong to
+  diagnostics?: Diagnostic[];
+  onChange: (settings: InnerSettings) => void;
+}
+
+/** List items for the inner transport header, TCP options and IP options. */
+function InnerFields({
+  settings,
+  innerProtocol,
+  diagnostics,
+  onChange,
+}: InnerFieldsProps) {
+  const numberInput = (
+    label: string,
+    key:
+      | "tcpSackBlocks"
+      | "ipv4Options"
+      | "ipv6HopByHop"
+      | "ipv6Segments"
+      | "ipv6DestOptions"
+  ) => (
+    <li className="half-margin-top">
+      <Input
+        label={label}
+        type="number"
+        value={settings[key]}
+        onChange={(elm: React.ChangeEvent<HTMLInputElement>) => {
+          onChange({ ...settings, [key]: parseInt(elm.currentTarget.value) });
+        }}
+      ></Input>
+      <FieldMessages diagnostics={diagnostics} field={`inner.${key}`} />
+    </li>
+  );
+
+  return (
+    <>
+      <li className="half-margin-top">
+        <ReactSelect
+          label="Inner Transport"
+          value={{ label: settings.transport, value: settings.transport }}
+          options={innerTransports.map((transport) => {
+            return { value: transport, label: transport };
+          })}
+          onChange={(selectedValue: {
+            label: InnerTransport;
+            value: InnerTransport;
+          }) => {
+            onChange({ ...settings, transport: selectedValue.value });
+          }}
+        ></ReactSelect>
+        <FieldMessages diagnostics={diagnostics} field="inner.transport" />
+      </li>
+      {settings.transport === "TCP" ? (
+        <>
+          <li className="half-margin-top">
+            <Switch
+              checked={settings.tcpTimestamps}
+              left="TCP Timestamps"
+              onChange={() => {
+                onChange({
+                  ...settings,
+                  tcpTimestamps: !settings.tcpTimestamps,
+                });
+              }}
+            ></Switch>
+          </li>
+          <li className="half-margin-top">
+            <Switch
+              checked={settings.tcpWindowScale}
+              left="TCP Window Scale (SYN only)"
+              onChange={() => {
+                onChange({
+                  ...settings,
+                  tcpWindowScale: !settings.tcpWindowScale,
+                });
+              }}
+            ></Switch>
+          </li>
+          {numberInput("TCP SACK Blocks", "tcpSackBlocks")}
+        </>
+      ) : null}
+      {innerProtocol === "IPv4" ? (
+        numberInput("IPv4 Options (bytes)", "ipv4Options")
+      ) : (
+        <>
+          {numberInput("IPv6 Hop-by-Hop Options (bytes)", "ipv6HopByHop")}
+          {numberInput("IPv6 Segment Routing Segments", "ipv6Segments")}
+          {numberInput("IPv6 Destination Options (bytes)", "ipv6DestOptions")}
+        </>
+      )}
+    </>
+  );
+}
+
+export default InnerFields;
@@ -0,0 +1,143 @@
+import { useState } from "react";
+import { Panel, Input, Switch } from "@vkumov/react-cui-2.0";
+import { GenericTable } from "@vkumov/react-cui-2.0/Table";
+
+import {
+  calculateIptfs,
+  copyProfile,
+  defaultIptfsSettings,
+  IFormState,
+  IptfsSettings,
+  TrafficProfile,
+  trafficProfiles,
+  validateIptfs,
+} from "../lib";
+import TrafficProfileEditor from "./TrafficProfileEditor";
+
+interface IptfsPanelProps {
+  form: IFormState;
+}
+
+/** Aggregation and fragmentation of inner packets by IP-TFS (RFC 9347). */
+function IptfsPanel({ form }: IptfsPanelProps) {
+  const [settings, setSettings] = useState<IptfsSettings>(defaultIptfsSettings);
+  // Weighted IMIX by default, so packets are both aggregated and split
+  const [profile, setProfile] = useState<TrafficProfile>(() =>
+    copyProfile(trafficProfiles[1], form)
+  );
+
+  const alert = validateIptfs(form, settings, profile);
+  const result = alert ? null : calculateIptfs(form, settings, profile);
+
+  return (
+    <Panel>
+      <h3>IP-TFS Aggregation</h3>
+      <div>
+        Inner packets are sent as a stream in outer ESP packets of a fixed size,
+        so small packets share an outer packet and large ones are split. The
+        tunnel is assumed to be busy, and the rates of the profile are used as
+        weights.
+      </div>
+      <div className="row half-margin-top">
+        <div className="col">
+          <Input
+            label="Outer Packet Size"
+            type="number"
+            value={settings.outerSize}
+            onChange={(elm: React.ChangeEvent<HTMLInputElement>) => {
+              setSettings({
+                ...settings,
+                outerSize: parseInt(elm.currentTarget.value),
+              });
+            }}
+          ></Input>
+        </div>
+        <div className="col">
+          <Switch
+            checked={settings.congestionControl}
+            left="Congestion Control Header"
+            onChange={() =>
+              setSettings({
+                ...settings,
+                congestionControl: !settings.congestionControl,
+              })
+            }
+          ></Switch>
+        </div>
+      </div>
+      <TrafficProfileEditor
+        profile={profile}
+        form={form}
+        rateLabel="Weight"
+        onChange={setProfile}
+      />
+      {alert ? (
+        <div className="half-margin-top text-danger">{alert}</div>
+      ) : result ? (
+        <div className="half-margin-top">
+          <GenericTable striped>
+            <tbody>
+              <tr>
+                <td>Data per Outer Packet</td>
+                <td>
+                  {result.dataSize} of {settings.outerSize} bytes (
+                  {result.fillEfficiency.toFixed(1)}% fill efficiency)
+                </td>
+              </tr>
+              <tr>
+                <td>Inner Packets per Outer Packet</td>
+                <td>{result.innerPacketsPerOuter.toFixed(2)}</td>
+              </tr>
+              <tr>
+                <td>Inner Packets Split over Outer Packets</td>
+                <td>{result.fragmentedPercent.toFixed(1)}%</td>
+              </tr>
+              <tr>
+                <td>Overhead per Inner Packet with IP-TFS</td>
+                <td>
+                  {result.overhead.toFixed(1)} bytes (
+                  {result.overheadPercent.toFixed(1)}%)
+                </td>
+              </tr>
+              <tr>
+                <td>Overhead per Inner Packet with ESP</td>
+                <td>
+                  {result.espOverhead.toFixed(1)} bytes (
+                  {result.espOverheadPercent.toFixed(1)}%)
+                </td>
+              </tr>
+            </tbody>
+          </GenericTable>
+          <GenericTable striped>
+            <thead>
+              <tr>
+                <th>Name</th>
+                <th>Inner Packet Size</th>
+                <th>Share</th>
+                <th>Outer Packets Used</th>
+                <th>Split</th>
+                <th>IP-TFS Overhead</th>
+                <th>ESP Overhead</th>
+              </tr>
+            </thead>
+            <tbody>
+              {result.classes.map((classResult, index) => (
+                <tr key={index}>
+                  <td>{classResult.trafficClass.name}</td>
+                  <td>{classResult.trafficClass.packetSize}</td>
+                  <td>{classResult.share.toFixed(1)}%</td>
+                  <td>{classResult.outerPackets.toFixed(2)}</td>
+                  <td>{classResult.fragmentedPercent.toFixed(1)}%</td>
+                  <td>{classResult.overhead.toFixed(1)}</td>
+                  <td>{classResult.espOverhead}</td>
+                </tr>
+              ))}
+            </tbody>
+          </GenericTable>
+        </div>
+      ) : null}
+    </Panel>
+  );
+}
+
+export default IptfsPanel;
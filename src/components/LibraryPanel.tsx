@@ -0,0 +1,220 @@
+import { useState } from "react";
+import { Button, Input, Panel } from "@vkumov/react-cui-2.0";
+import { GenericTable } from "@vkumov/react-cui-2.0/Table";
+
+import {
+  cloneForm,
+  copyNameOf,
+  IFormState,
+  libraryToJson,
+  parseLibrary,
+  SavedScenario,
+  saveScenario,
+  validateForm,
+} from "../lib";
+import { useScenarioLibrary } from "../hooks/useScenarioLibrary";
+import { downloadFile } from "../utils/download";
+
+interface LibraryPanelProps {
+  form: IFormState;
+  onLoad: (form: IFormState) => void;
+}
+
+/** Named configurations kept in local storage and shared as JSON files. */
+function LibraryPanel({ form, onLoad }: LibraryPanelProps) {
+  const [scenarios, setScenarios, loadMessages] = useScenarioLibrary();
+  const [name, setName] = useState<string>("");
+  const [notes, setNotes] = useState<string>("");
+  const [messages, setMessages] = useState<string[]>(loadMessages);
+
+  const save = (scenario: Omit<SavedScenario, "savedAt">) =>
+    setScenarios(
+      saveScenario(scenarios, {
+        ...scenario,
+        savedAt: new Date().toISOString(),
+      })
+    );
+
+  const importLibrary = (file: File) => {
+    file.text().then((json) => {
+      const imported = parseLibrary(json);
+      let merged = scenarios;
+      for (const scenario of imported.scenarios) {
+        merged = saveScenario(merged, scenario);
+      }
+      setScenarios(merged);
+      setMessages([
+        `Imported ${imported.scenarios.length} scenarios from ${file.name}.`,
+        ...imported.messages,
+      ]);
+    });
+  };
+
+  return (
+    <Panel>
+      <h3>Scenario Library</h3>
+      <div className="row">
+        <div className="col">
+          <Input
+            label="Scenario Name"
+            value={name}
+            onChange={(elm: React.ChangeEvent<HTMLInputElement>) => {
+              setName(elm.currentTarget.value);
+            }}
+          ></Input>
+        </div>
+        <div className="col">
+          <Input
+            label="Notes"
+            value={notes}
+            onChange={(elm: React.ChangeEvent<HTMLInputElement>) => {
+              setNotes(elm.currentTarget.value);
+            }}
+          ></Input>
+        </div>
+      </div>
+      <div className="half-margin-top">
+        <Button
+          color="primary"
+          size="small"
+          disabled={!name.trim()}
+          onClick={() => {
+            save({ name: name.trim(), notes, form: cloneForm(form) });
+            setMessages([]);
+          }}
+        >
+          Save Current Configuration
+        </Button>
+        <Button
+          color="secondary"
+          size="small"
+          disabled={scenarios.length === 0}
+          onClick={() =>
+            downloadFile(
+              "ipsec-scenarios.json",
+              libraryToJson(scenarios),
+              "application/json"
+            )
+          }
+        >
+          Export Library
+        </Button>
+        <label className="btn btn--secondary btn--small">
+          Import Library
+          <input
+            type="file"
+            accept=".json,application/json"
+            style={{ display: "none" }}
+            onChange={(elm: React.ChangeEvent<HTMLInputElement>) => {
+              const file = elm.currentTarget.files?.[0];
+              if (file) {
+                importLibrary(file);
+              }
+              elm.currentTarget.value = "";
+            }}
+          />
+        </label>
+      </div>
+      {messages.length > 0 ? (
+        <ul className="half-margin-top">
+          {messages.map((message, index) => (
+            <li key={index}>{message}</li>
+          ))}
+        </ul>
+      ) : null}
+      {scenarios.length > 0 ? (
+        <GenericTable striped>
+          <thead>
+            <tr>
+              <th>Name</th>
+              <th>Notes</th>
+              <th>Transform</th>
+              <th>Saved</th>
+              <th></th>
+            </tr>
+          </thead>
+          <tbody>
+            {scenarios.map((scenario, index) => {
+              const problem = validateForm(scenario.form);
+              return (
+                <tr key={scenario.name}>
+                  <td>
+                    {scenario.name}
+                    {problem ? (
+                      <div className="text-danger">{problem}</div>
+                    ) : null}
+                  </td>
+                  <td>{scenario.notes}</td>
+                  <td>
+                    {[
+                      scenario.form.transform.ahInte,
+                      scenario.form.transform.espEncr,
+                      scenario.form.transform.espInte,
+                    ]
+                      .filter((name) => name !== "None")
+                      .join(", ")}{" "}
+                    ({scenario.form.transform.tunnelMode})
+                  </td>
+                  <td>
+                    {scenario.savedAt
+                      ? new Date(scenario.savedAt).toLocaleString()
+                      : ""}
+                  </td>
+                  <td>
+                    <Button
+                      color="secondary"
+                      size="small"
+                      onClick={() => {
+                        if (problem) {
+                          setMessages([
+                            `"${scenario.name}" was not loaded: ${problem}`,
+                          ]);
+                          return;
+                        }
+                        setName(scenario.name);
+                        setNotes(scenario.notes);
+                        setMessages([]);
+                        onLoad(cloneForm(scenario.form));
+                      }}
+                    >
+                      Load
+                    </Button>
+                    <Button
+                      color="secondary"
+                      size="small"
+                      onClick={() =>
+                        save({
+                          ...scenario,
+                          name: copyNameOf(scenarios, scenario.name),
+                          form: cloneForm(scenario.form),
+                        })
+                      }
+                    >
+                      Duplicate
+                    </Button>
+                    <Button
+                      color="secondary"
+                      size="small"
+                      onClick={() =>
+                        setScenarios(scenarios.filter((_, i) => i !== index))
+                      }
+                    >
+                      Delete
+                    </Button>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </GenericTable>
+      ) : (
+        <div className="half-margin-top">
+          No saved scenarios yet. Save the current configuration, or import a
+          library exported by a colleague.
+        </div>
+      )}
+    </Panel>
+  );
+}
+
+export default LibraryPanel;
@@ -0,0 +1,156 @@
+interface LinePoint {
+  x: number;
+  y: number;
+  // Drawn in the highlight colour when set
+  highlight?: boolean;
+}
+
+interface LineChartProps {
+  title: string;
+  xLabel: string;
+  yLabel: string;
+  points: LinePoint[];
+  // (Optional) Horizontal reference line, e.g. the MTU
+  threshold?: { y: number; label: string };
+}
+
+const WIDTH = 800;
+const HEIGHT = 260;
+const MARGIN = { top: 10, right: 20, bottom: 40, left: 60 };
+const TICKS = 5;
+
+/** Simple SVG line chart that scales to the width of its container. */
+function LineChart({
+  title,
+  xLabel,
+  yLabel,
+  points,
+  threshold,
+}: LineChartProps) {
+  if (points.length === 0) {
+    return null;
+  }
+  const xs = points.map((p) => p.x);
+  const ys = points.map((p) => p.y);
+  if (threshold) {
+    ys.push(threshold.y);
+  }
+  const minX = Math.min(...xs);
+  const maxX = Math.max(...xs);
+  const minY = Math.min(...ys);
+  const maxY = Math.max(...ys);
+  const plotWidth = WIDTH - MARGIN.left - MARGIN.right;
+  const plotHeight = HEIGHT - MARGIN.top - MARGIN.bottom;
+  const scaleX = (x: number) =>
+    MARGIN.left +
+    (maxX === minX ? 0 : ((x - minX) / (maxX - minX)) * plotWidth);
+  const scaleY = (y: number) =>
+    MARGIN.top +
+    plotHeight -
+    (maxY === minY ? 0 : ((y - minY) / (maxY - minY)) * plotHeight);
+
+  // Highlighted segments are drawn on top of the full line
+  let line = "";
+  let highlighted = "";
+  points.forEach((p, index) => {
+    const coords = `${scaleX(p.x).toFixed(1)},${scaleY(p.y).toFixed(1)}`;
+    line += `${index === 0 ? "M" : "L"}${coords}`;
+    if (p.highlight) {
+      highlighted += `${
+        index > 0 && points[index - 1].highlight ? "L" : "M"
+      }${coords}`;
+    }
+  });
+
+  const ticks = (min: number, max: number) =>
+    Array.from(
+      { length: TICKS + 1 },
+      (_, i) => min + ((max - min) * i) / TICKS
+    );
+
+  return (
+    <div>
+      <h5>{title}</h5>
+      <svg
+        viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+        width="100%"
+        preserveAspectRatio="xMidYMid meet"
+      >
+        {ticks(minY, maxY).map((y, index) => (
+          <g key={`y${index}`}>
+            <line
+              x1={MARGIN.left}
+              x2={WIDTH - MARGIN.right}
+              y1={scaleY(y)}
+              y2={scaleY(y)}
+              stroke="lightgray"
+            />
+            <text
+              x={MARGIN.left - 5}
+              y={scaleY(y) + 4}
+              fontSize={11}
+              textAnchor="end"
+            >
+              {Number.isInteger(y) ? y : y.toFixed(1)}
+            </text>
+          </g>
+        ))}
+        {ticks(minX, maxX).map((x, index) => (
+          <text
+            key={`x${index}`}
+            x={scaleX(x)}
+            y={HEIGHT - MARGIN.bottom + 15}
+            fontSize={11}
+            textAnchor="middle"
+          >
+            {Math.round(x)}
+          </text>
+        ))}
+        <text
+          x={MARGIN.left + plotWidth / 2}
+          y={HEIGHT - 5}
+          fontSize={12}
+          textAnchor="middle"
+        >
+          {xLabel}
+        </text>
+        <text
+          x={12}
+          y={MARGIN.top + plotHeight / 2}
+          fontSize={12}
+          textAnchor="middle"
+          transform={`rotate(-90 12 ${MARGIN.top + plotHeight / 2})`}
+        >
+          {yLabel}
+        </text>
+        {threshold ? (
+          <g>
+            <line
+              x1={MARGIN.left}
+              x2={WIDTH - MARGIN.right}
+              y1={scaleY(threshold.y)}
+              y2={scaleY(threshold.y)}
+              stroke="crimson"
+              strokeDasharray="6 4"
+            />
+            <text
+              x={WIDTH - MARGIN.right}
+              y={scaleY(threshold.y) - 4}
+              fontSize={11}
+              textAnchor="end"
+              fill="crimson"
+            >
+              {threshold.label}
+            </text>
+          </g>
+        ) : null}
+        <path d={line} fill="none" stroke="steelblue" strokeWidth={1.5} />
+        {highlighted ? (
+          <path d={highlighted} fill="none" stroke="crimson" strokeWidth={2} />
+        ) : null}
+      </svg>
+    </div>
+  );
+}
+
+export default LineChart;
@@ -0,0 +1,74 @@
+import { Panel, Input } from "@vkumov/react-cui-2.0";
+import { GenericTable } from "@vkumov/react-cui-2.0/Table";
+
+import { ipFamiliesOf, IFormState, recommendMtu, validateMtu } from "../lib";
+
+interface MtuPanelProps {
+  form: IFormState;
+  pathMtu: number;
+  onPathMtuChange: (pathMtu: number) => void;
+}
+
+/** Reverse calculation: largest inner packet, `ip mtu` and MSS for a path MTU. */
+function MtuPanel({ form, pathMtu, onPathMtuChange }: MtuPanelProps) {
+  const alert = validateMtu(pathMtu, ipFamiliesOf(form).outer);
+  const recommendation = alert ? null : recommendMtu(form, pathMtu);
+
+  return (
+    <Panel>
+      <h3>MTU / MSS Recommendation</h3>
+      <Input
+        label="Underlay (Path) MTU"
+        type="number"
+        value={pathMtu}
+        onChange={(elm: React.ChangeEvent<HTMLInputElement>) => {
+          onPathMtuChange(parseInt(elm.currentTarget.value));
+        }}
+      ></Input>
+      {alert ? (
+        <div className="half-margin-top text-danger">{alert}</div>
+      ) : recommendation === null ? (
+        <div className="half-margin-top text-danger">
+          The selected transform does not fit in an MTU of {pathMtu} bytes.
+        </div>
+      ) : (
+        <GenericTable striped>
+          <tbody>
+            <tr>
+              <td>Maximum Inner Packet Size</td>
+              <td>{recommendation.maxInnerSize}</td>
+            </tr>
+            <tr>
+              <td>Encrypted Packet Size</td>
+              <td>{recommendation.encryptedSize}</td>
+            </tr>
+            <tr>
+              <td>Headroom</td>
+              <td>{recommendation.headroom}</td>
+            </tr>
+            <tr>
+              <td>
+                Tunnel <code>ip mtu</code>
+              </td>
+              <td>{recommendation.maxInnerSize}</td>
+            </tr>
+            <tr>
+              <td>
+                <code>ip tcp adjust-mss</code> (IPv4)
+              </td>
+              <td>{recommendation.tcpMssIPv4}</td>
+            </tr>
+            <tr>
+              <td>
+                <code>ipv6 tcp adjust-mss</code> (IPv6)
+              </td>
+              <td>{recommendation.tcpMssIPv6}</td>
+            </tr>
+          </tbody>
+        </GenericTable>
+      )}
+    </Panel>
+  );
+}
+
+export default MtuPanel;
@@ -0,0 +1,109 @@
+import { Input, ReactSelect, Switch } from "@vkumov/react-cui-2.0";
+
+import { Diagnostic, l2tpCookieSizes, OverlaySettings } from "../lib";
+import FieldMessages from "./FieldMessages";
+
+interface OverlayOptionsProps {
+  settings: OverlaySettings;
+  // Errors and advisories of the form the settings belong to
+  diagnostics?: Diagnostic[];
+  onChange: (settings: OverlaySettings) => void;
+}
+
+/** List items for the options of the selected overlay type. */
+function OverlayOptions({
+  settings,
+  diagnostics,
+  onChange,
+}: OverlayOptionsProps) {
+  if (settings.overlay === "GRE") {
+    return (
+      <>
+        <li className="half-margin-top">
+          <Switch
+            checked={settings.greKey}
+            left="GRE Tunnel Key (mGRE/DMVPN)"
+            onChange={() => {
+              onChange({ ...settings, greKey: !settings.greKey });
+            }}
+          ></Switch>
+        </li>
+        <li className="half-margin-top">
+          <Switch
+            checked={settings.greChecksum}
+            left="GRE Checksum"
+            onChange={() => {
+              onChange({ ...settings, greChecksum: !settings.greChecksum });
+            }}
+          ></Switch>
+        </li>
+        <li className="half-margin-top">
+          <Switch
+            checked={settings.greSequence}
+            left="GRE Sequence Number"
+            onChange={() => {
+              onChange({ ...settings, greSequence: !settings.greSequence });
+            }}
+          ></Switch>
+        </li>
+      </>
+    );
+  }
+  if (settings.overlay === "GENEVE") {
+    return (
+      <>
+        <li className="half-margin-top">
+          <Switch
+            checked={settings.geneveEthernet}
+            left="GENEVE Carries Ethernet"
+            onChange={() => {
+              onChange({
+                ...settings,
+                geneveEthernet: !settings.geneveEthernet,
+              });
+            }}
+          ></Switch>
+        </li>
+        <li className="half-margin-top">
+          <Input
+            label="GENEVE Option Bytes"
+            type="number"
+            value={settings.geneveOptions}
+            onChange={(elm: React.ChangeEvent<HTMLInputElement>) => {
+              onChange({
+                ...settings,
+                geneveOptions: parseInt(elm.currentTarget.value),
+              });
+            }}
+          ></Input>
+          <FieldMessages
+            diagnostics={diagnostics}
+            field="tunnelSetting.geneveOptions"
+          />
+        </li>
+      </>
+    );
+  }
+  if (settings.overlay === "L2TPv3") {
+    return (
+      <li className="half-margin-top">
+        <ReactSelect
+          label="L2TPv3 Cookie"
+          value={{
+            label: `${settings.l2tpCookie} bytes`,
+            value: settings.l2tpCookie,
+          }}
+          options={l2tpCookieSizes.map((cookie) => {
+            return { value: cookie, label: `${cookie} bytes` };
+          })}
+          onChange={(selectedValue: { label: string; value: number }) => {
+            onChange({ ...settings, l2tpCookie: selectedValue.value });
+          }}
+        ></ReactSelect>
+      </li>
+    );
+  }
+  return null;
+}
+
+export default OverlayOptions;
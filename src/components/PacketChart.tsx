@@ -0,0 +1,50 @@
+import { PacketLayer } from "../lib";
+import { packetColorOf } from "./packetColors";
+
+interface PacketChartProps {
+  layers: PacketLayer[];
+  // Width of the chart in pixels
+  width: number;
+  // Number of bytes drawn across the full width
+  scaleBytes: number;
+}
+
+/** Draws the layers of a packet as proportional boxes. */
+function PacketChart({ layers, width, scaleBytes }: PacketChartProps) {
+  let boxPos = 1;
+  // X position of next box in pixels
+
+  return (
+    <svg width={width} height={90}>
+      <g>
+        {layers.map((box: PacketLayer, index: number) => {
+          const percentSize = box.size / scaleBytes;
+          let absoluteSize = Math.floor(width * percentSize) - 1;
+          absoluteSize = Math.max(absoluteSize, 0);
+          const color = packetColorOf(box.label);
+          const rect = (
+            <g key={index}>
+              <rect
+                width={absoluteSize}
+                height={80}
+                fill={color}
+                stroke="black"
+                x={boxPos}
+                y={2}
+              ></rect>
+              <foreignObject x={boxPos} y={2} width={absoluteSize} height={80}>
+                <div style={{ color: "black", margin: "auto", width: "95%" }}>
+                  {box.label}
+                </div>
+              </foreignObject>
+            </g>
+          );
+          boxPos += absoluteSize;
+          return rect;
+        })}
+      </g>
+    </svg>
+  );
+}
+
+export default PacketChart;
@@ -0,0 +1,82 @@
+import { GenericTable } from "@vkumov/react-cui-2.0/Table";
+
+import { PacketLayer, PacketResult, paddingPolicySpecs } from "../lib";
+
+interface PacketSummaryProps {
+  result: PacketResult;
+}
+
+/** Table of the layers of a packet with totals and the ESP padding applied. */
+function PacketSummary({ result }: PacketSummaryProps) {
+  const { totalSize, wireSize } = result;
+  const boxes: PacketLayer[] = [...result.layers];
+  boxes.push({
+    label: "Total IPsec Packet Size",
+    size: totalSize,
+    details: [],
+  });
+  if (wireSize !== totalSize) {
+    boxes.push({
+      label: "Total Bytes on the Wire",
+      size: wireSize,
+      details: [],
+    });
+  }
+  boxes.push({
+    label: `Application Payload (${result.efficiency.toFixed(
+      1
+    )}% of the bytes on the wire)`,
+    size: result.payloadSize,
+    details: [],
+  });
+
+  return (
+    <>
+      <GenericTable striped>
+        <thead>
+          <tr>
+            <th></th>
+            <th>Payload</th>
+            <th>Size</th>
+          </tr>
+        </thead>
+        <tbody>
+          {boxes.map((box, index) => {
+            return (
+              <tr key={index}>
+                <td></td>
+                <td>
+                  <div>{box.label}</div>
+                  <ul>
+                    {box.details.map((detail, index) => {
+                      return (
+                        <li key={index}>
+                          {detail.text} - {detail.bytes}
+                        </li>
+                      );
+                    })}
+                  </ul>
+                </td>
+                <td>{box.size}</td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </GenericTable>
+      {result.padding.map((padding, index) => (
+        <div key={index} className="half-margin-top">
+          {result.padding.length > 1 ? `ESP layer ${index + 1}: ` : ""}
+          ESP padding follows the {padding.policy} policy:{" "}
+          {paddingPolicySpecs[padding.policy].description} Payload and trailer
+          are aligned to {padding.alignment} bytes
+          {padding.extra > 0
+            ? `, with ${padding.extra} bytes of extra padding`
+            : ""}
+          {padding.tfc > 0 ? ` and ${padding.tfc} bytes of TFC padding` : ""}.
+        </div>
+      ))}
+    </>
+  );
+}
+
+export default PacketSummary;
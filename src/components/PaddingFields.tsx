@@ -0,0 +1,86 @@
+import { Input, ReactSelect } from "@vkumov/react-cui-2.0";
+
+import {
+  Diagnostic,
+  PaddingPolicy,
+  PaddingSettings,
+  paddingPolicies,
+  paddingPolicySpecs,
+  withPaddingPolicy,
+} from "../lib";
+import FieldMessages from "./FieldMessages";
+
+interface PaddingFieldsProps {
+  settings: PaddingSettings;
+  // Errors and advisories of the form the settings belong to
+  diagnostics?: Diagnostic[];
+  onChange: (settings: PaddingSettings) => void;
+}
+
+/** List items for the ESP padding policy, extra and TFC padding. */
+function PaddingFields({
+  settings,
+  diagnostics,
+  onChange,
+}: PaddingFieldsProps) {
+  const spec = paddingPolicySpecs[settings.policy];
+  return (
+    <>
+      <li className="half-margin-top">
+        <ReactSelect
+          label="ESP Padding Policy"
+          value={{
+            label: settings.policy,
+            value: settings.policy,
+          }}
+          options={paddingPolicies.map((policy) => {
+            return { value: policy, label: policy };
+          })}
+          onChange={(selectedValue: {
+            label: PaddingPolicy;
+            value: PaddingPolicy;
+          }) => {
+            onChange(withPaddingPolicy(settings, selectedValue.value));
+          }}
+        ></ReactSelect>
+      </li>
+      {spec.supportsExtraPadding ? (
+        <li className="half-margin-top">
+          <Input
+            label="Extra ESP Padding (bytes)"
+            type="number"
+            value={settings.extraPadding}
+            onChange={(elm: React.ChangeEvent<HTMLInputElement>) => {
+              onChange({
+                ...settings,
+                extraPadding: parseInt(elm.currentTarget.value),
+              });
+            }}
+          ></Input>
+          <FieldMessages
+            diagnostics={diagnostics}
+            field="padding.extraPadding"
+          />
+        </li>
+      ) : null}
+      {spec.supportsTfc ? (
+        <li className="half-margin-top">
+          <Input
+            label="TFC Padding Target Size (0 = off)"
+            type="number"
+            value={settings.tfcTarget}
+            onChange={(elm: React.ChangeEvent<HTMLInputElement>) => {
+              onChange({
+                ...settings,
+                tfcTarget: parseInt(elm.currentTarget.value),
+              });
+            }}
+          ></Input>
+          <FieldMessages diagnostics={diagnostics} field="padding.tfcTarget" />
+        </li>
+      ) : null}
+    </>
+  );
+}
+
+export default PaddingFields;
@@ -0,0 +1,337 @@
+import { useState } from "react";
+import {
+  Panel,
+  Input,
+  ReactSelect,
+  Switch,
+  Button,
+} from "@vkumov/react-cui-2.0";
+import { GenericTable } from "@vkumov/react-cui-2.0/Table";
+
+import {
+  HopAction,
+  HopResult,
+  IFormState,
+  PathHop,
+  StackLayer,
+  hopActions,
+  newStackLayer,
+  pathPresets,
+  simulatePath,
+  stackLayerKinds,
+  validatePath,
+} from "../lib";
+import StackLayerEditor from "./StackLayerEditor";
+
+interface PathPanelProps {
+  form: IFormState;
+}
+
+const eventText = (result: HopResult) => {
+  switch (result.event) {
+    case "Fits":
+      return "Fits";
+    case "Fragmented":
+      return `Fragmented into ${result.fragments} packets`;
+    case "Packet Too Big":
+      return `Dropped, ICMP packet too big sent to ${result.icmpTarget}`;
+    case "Not Reached":
+      return "Not reached";
+  }
+};
+
+/** Multi-hop path where every hop has its own MTU and encapsulation. */
+function PathPanel({ form }: PathPanelProps) {
+  const [presetName, setPresetName] = useState<string>(pathPresets[0].name);
+  const [hops, setHops] = useState<PathHop[]>(() => pathPresets[0].build(form));
+  const [innerDf, setInnerDf] = useState<boolean>(false);
+  const [newKind, setNewKind] = useState<StackLayer["kind"]>("ESP");
+
+  const alert = validatePath(form, hops);
+  const result = alert ? null : simulatePath(form, hops, innerDf);
+
+  const setHop = (index: number, hop: PathHop) => {
+    const newHops = [...hops];
+    newHops[index] = hop;
+    setHops(newHops);
+  };
+  const moveHop = (index: number, offset: number) => {
+    const newHops = [...hops];
+    const [hop] = newHops.splice(index, 1);
+    newHops.splice(index + offset, 0, hop);
+    setHops(newHops);
+  };
+
+  return (
+    <Panel>
+      <h3>Path</h3>
+      <p>
+        The {form.packetSize} byte inner {form.innerProtocol} packet crosses the
+        hops from the top down. Every hop forwards the packet, adds an
+        encapsulation, or strips the last one added, and sends it over a segment
+        with its own MTU.
+      </p>
+      <div className="row">
+        <div className="col">
+          <ReactSelect
+            label="Preset"
+            options={pathPresets.map((preset) => {
+              return { label: preset.name, value: preset.name };
+            })}
+            value={{ label: presetName, value: presetName }}
+            onChange={(selectedValue: { label: string; value: string }) => {
+              const preset = pathPresets.find(
+                (preset) => preset.name === selectedValue.value
+              );
+              if (preset) {
+                setPresetName(preset.name);
+                setHops(preset.build(form));
+              }
+            }}
+          ></ReactSelect>
+        </div>
+        <div className="col">
+          <Button
+            color="secondary"
+            size="small"
+            onClick={() => {
+              const preset = pathPresets.find(
+                (preset) => preset.name === presetName
+              );
+              if (preset) {
+                setHops(preset.build(form));
+              }
+            }}
+          >
+            Reload Preset
+          </Button>
+        </div>
+        {form.innerProtocol === "IPv4" ? (
+          <div className="col">
+            <Switch
+              checked={innerDf}
+              left="Inner DF Set"
+              onChange={() => setInnerDf(!innerDf)}
+            ></Switch>
+          </div>
+        ) : null}
+      </div>
+      <ol>
+        {hops.map((hop, index) => (
+          <li key={index} className="half-margin-top">
+            <div className="row">
+              <div className="col">
+                <Input
+                  label="Hop"
+                  value={hop.name}
+                  onChange={(elm: React.ChangeEvent<HTMLInputElement>) => {
+                    setHop(index, { ...hop, name: elm.currentTarget.value });
+                  }}
+                ></Input>
+              </div>
+              <div className="col">
+                <ReactSelect
+                  label="Encapsulation"
+                  value={{ label: hop.action, value: hop.action }}
+                  options={hopActions.map((action) => {
+                    return { label: action, value: action };
+                  })}
+                  onChange={(selectedValue: {
+                    label: HopAction;
+                    value: HopAction;
+                  }) => {
+                    setHop(index, { ...hop, action: selectedValue.value });
+                  }}
+                ></ReactSelect>
+              </div>
+              <div className="col">
+                <Input
+                  label="Segment MTU"
+                  type="number"
+                  value={hop.mtu}
+                  onChange={(elm: React.ChangeEvent<HTMLInputElement>) => {
+                    setHop(index, {
+                      ...hop,
+                      mtu: parseInt(elm.currentTarget.value),
+                    });
+                  }}
+                ></Input>
+              </div>
+              <div className="col">
+                <Button
+                  color="secondary"
+                  size="small"
+                  disabled={index === 0}
+                  onClick={() => moveHop(index, -1)}
+                >
+                  Up
+                </Button>
+                <Button
+                  color="secondary"
+                  size="small"
+                  disabled={index === hops.length - 1}
+                  onClick={() => moveHop(index, 1)}
+                >
+                  Down
+                </Button>
+                <Button
+                  color="danger"
+                  size="small"
+                  onClick={() => setHops(hops.filter((_, i) => i !== index))}
+                >
+                  Remove
+                </Button>
+              </div>
+            </div>
+            {hop.action === "Add" ? (
+              <ol>
+                {hop.layers.map((layer, layerIndex) => (
+                  <li key={layerIndex} className="half-margin-top">
+                    <strong>{layer.kind}</strong>{" "}
+                    <Button
+                      color="danger"
+                      size="small"
+                      onClick={() =>
+                        setHop(index, {
+                          ...hop,
+                          layers: hop.layers.filter((_, i) => i !== layerIndex),
+                        })
+                      }
+                    >
+                      Remove
+                    </Button>
+                    <StackLayerEditor
+                      layer={layer}
+                      onChange={(newLayer) => {
+                        const layers = [...hop.layers];
+                        layers[layerIndex] = newLayer;
+                        setHop(index, { ...hop, layers });
+                      }}
+                    />
+                  </li>
+                ))}
+                <li className="half-margin-top" style={{ listStyle: "none" }}>
+                  <Button
+                    color="secondary"
+                    size="small"
+                    onClick={() =>
+                      setHop(index, {
+                        ...hop,
+                        layers: [...hop.layers, newStackLayer(newKind)],
+                      })
+                    }
+                  >
+                    Add {newKind} Layer
+                  </Button>
+                </li>
+              </ol>
+            ) : null}
+          </li>
+        ))}
+      </ol>
+      <div className="row">
+        <div className="col">
+          <ReactSelect
+            label="New Layer"
+            options={stackLayerKinds.map((kind) => {
+              return { label: kind, value: kind };
+            })}
+            value={{ label: newKind, value: newKind }}
+            onChange={(selectedValue: {
+              label: StackLayer["kind"];
+              value: StackLayer["kind"];
+            }) => {
+              setNewKind(selectedValue.value);
+            }}
+          ></ReactSelect>
+        </div>
+        <div className="col">
+          <Button
+            color="secondary"
+            size="small"
+            onClick={() =>
+              setHops([
+                ...hops,
+                {
+                  name: `Hop ${hops.length + 1}`,
+                  mtu: 1500,
+                  action: "Forward",
+                  layers: [],
+                },
+              ])
+            }
+          >
+            Add Hop
+          </Button>
+        </div>
+      </div>
+      {alert ? (
+        <div className="half-margin-top text-danger">{alert}</div>
+      ) : result ? (
+        <div className="half-margin-top">
+          <p>
+            {result.pathMtu === null
+              ? `No inner packet fits on the segment after ${
+                  hops[result.bottleneck].name
+                }.`
+              : `The largest inner packet that crosses the path without fragmentation is ${
+                  result.pathMtu
+                } bytes, limited by the segment after ${
+                  hops[result.bottleneck].name
+                }.`}
+          </p>
+          <GenericTable striped>
+            <thead>
+              <tr>
+                <th>Hop</th>
+                <th>MTU</th>
+                <th>Outer Header</th>
+                <th>Packet Size</th>
+                <th>Max Inner Size</th>
+                <th>Result</th>
+              </tr>
+            </thead>
+            <tbody>
+              {result.hops.map((hopResult, index) => (
+                <tr
+                  key={index}
+                  className={
+                    hopResult.event === "Packet Too Big"
+                      ? "text-danger"
+                      : undefined
+                  }
+                >
+                  <td>
+                    {index === result.bottleneck ? (
+                      <strong>{hopResult.hop.name}</strong>
+                    ) : (
+                      hopResult.hop.name
+                    )}
+                  </td>
+                  <td>{hopResult.hop.mtu}</td>
+                  <td>
+                    {hopResult.ipProtocol}
+                    {hopResult.depth > 0
+                      ? ` (${hopResult.depth} encapsulation${
+                          hopResult.depth > 1 ? "s" : ""
+                        })`
+                      : ""}
+                  </td>
+                  <td>
+                    {hopResult.event === "Not Reached"
+                      ? "-"
+                      : hopResult.packetSize}
+                  </td>
+                  <td>{hopResult.maxInnerSize ?? "-"}</td>
+                  <td>{eventText(hopResult)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </GenericTable>
+        </div>
+      ) : null}
+    </Panel>
+  );
+}
+
+export default PathPanel;
@@ -0,0 +1,77 @@
+import { Button } from "@vkumov/react-cui-2.0";
+import { GenericTable } from "@vkumov/react-cui-2.0/Table";
+
+import {
+  flattenConfig,
+  IFormState,
+  ipFamiliesOf,
+  PacketResult,
+  recommendMtu,
+  validateMtu,
+} from "../lib";
+import PacketChart from "./PacketChart";
+import PacketSummary from "./PacketSummary";
+
+/** Width of the report chart in pixels, sized for an A4/Letter page. */
+const REPORT_CHART_WIDTH = 680;
+
+interface ReportViewProps {
+  form: IFormState;
+  result: PacketResult;
+  pathMtu: number;
+  onClose: () => void;
+}
+
+/** One-page report of the packet, its settings and the MTU to configure. */
+function ReportView({ form, result, pathMtu, onClose }: ReportViewProps) {
+  const recommendation = validateMtu(pathMtu, ipFamiliesOf(form).outer)
+    ? null
+    : recommendMtu(form, pathMtu);
+
+  return (
+    <div className="half-margin" style={{ maxWidth: REPORT_CHART_WIDTH + 40 }}>
+      <style>{"@media print { .report-actions { display: none; } }"}</style>
+      <div className="report-actions">
+        <Button color="primary" size="small" onClick={() => window.print()}>
+          Print
+        </Button>
+        <Button color="secondary" size="small" onClick={onClose}>
+          Back to Calculator
+        </Button>
+      </div>
+      <h2>IPsec Overhead Report</h2>
+      <p>
+        {form.packetSize} byte inner {form.innerProtocol} packet, encrypted to{" "}
+        {result.totalSize} bytes ({result.wireSize} bytes on the wire). Overhead{" "}
+        {result.overhead} bytes ({result.overheadPercent.toFixed(1)}%),
+        efficiency {result.efficiency.toFixed(1)}%.
+      </p>
+      <PacketChart
+        layers={result.layers}
+        width={REPORT_CHART_WIDTH}
+        scaleBytes={result.wireSize}
+      />
+      <PacketSummary result={result} />
+      {recommendation ? (
+        <p className="half-margin-top">
+          For a path MTU of {pathMtu} bytes: tunnel <code>ip mtu</code>{" "}
+          {recommendation.maxInnerSize}, IPv4 MSS {recommendation.tcpMssIPv4},
+          IPv6 MSS {recommendation.tcpMssIPv6}.
+        </p>
+      ) : null}
+      <h4>Configuration</h4>
+      <GenericTable striped>
+        <tbody>
+          {flattenConfig(form).map(([setting, value]) => (
+            <tr key={setting}>
+              <td>{setting}</td>
+              <td>{`${value}`}</td>
+            </tr>
+          ))}
+        </tbody>
+      </GenericTable>
+    </div>
+  );
+}
+
+export default ReportView;
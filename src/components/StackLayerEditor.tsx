@@ -0,0 +1,173 @@
+import { Input, ReactSelect } from "@vkumov/react-cui-2.0";
+
+import {
+  AhHmac,
+  EspEncryption,
+  EspHmac,
+  IPVersion,
+  OverlayType,
+  StackLayer,
+  aeadIcvLengthOf,
+  ahHmacItems,
+  espEncrItems,
+  espEncryptionSpecOf,
+  espHmacItems,
+  icvLengthFor,
+  ipVersions,
+  overlayTypes,
+} from "../lib";
+import OverlayOptions from "./OverlayOptions";
+import PaddingFields from "./PaddingFields";
+
+interface StackLayerEditorProps {
+  layer: StackLayer;
+  onChange: (layer: StackLayer) => void;
+}
+
+/** Inputs for the settings of a single encapsulation stack layer. */
+function StackLayerEditor({ layer, onChange }: StackLayerEditorProps) {
+  switch (layer.kind) {
+    case "IP":
+      return (
+        <ul style={{ listStyle: "none" }}>
+          <li className="half-margin-top">
+            <ReactSelect
+              label="IP Version"
+              value={{ label: layer.ipProtocol, value: layer.ipProtocol }}
+              options={ipVersions.map((version) => {
+                return { value: version, label: version };
+              })}
+              onChange={(selectedValue: {
+                label: IPVersion;
+                value: IPVersion;
+              }) => {
+                onChange({ ...layer, ipProtocol: selectedValue.value });
+              }}
+            ></ReactSelect>
+          </li>
+          <li className="half-margin-top">
+            <Input
+              label="Added For"
+              value={layer.purpose}
+              onChange={(elm: React.ChangeEvent<HTMLInputElement>) => {
+                onChange({ ...layer, purpose: elm.currentTarget.value });
+              }}
+            ></Input>
+          </li>
+        </ul>
+      );
+    case "Overlay":
+      return (
+        <ul style={{ listStyle: "none" }}>
+          <li className="half-margin-top">
+            <ReactSelect
+              label="Overlay Encapsulation"
+              value={{
+                label: layer.overlay.overlay,
+                value: layer.overlay.overlay,
+              }}
+              options={overlayTypes
+                .filter((overlay) => overlay !== "None")
+                .map((overlay) => {
+                  return { value: overlay, label: overlay };
+                })}
+              onChange={(selectedValue: {
+                label: OverlayType;
+                value: OverlayType;
+              }) => {
+                onChange({
+                  ...layer,
+                  overlay: { ...layer.overlay, overlay: selectedValue.value },
+                });
+              }}
+            ></ReactSelect>
+          </li>
+          <OverlayOptions
+            settings={layer.overlay}
+            onChange={(overlay) => onChange({ ...layer, overlay })}
+          />
+        </ul>
+      );
+    case "NAT-T":
+    case "ESP-in-TCP":
+      return null;
+    case "AH":
+      return (
+        <ul style={{ listStyle: "none" }}>
+          <li className="half-margin-top">
+            <ReactSelect
+              label="AH Integrity"
+              value={{ label: layer.ahInte, value: layer.ahInte }}
+              options={ahHmacItems.map((ah) => {
+                return { label: ah, value: ah };
+              })}
+              onChange={(selectedValue: { value: AhHmac; label: AhHmac }) => {
+                onChange({ ...layer, ahInte: selectedValue.value });
+              }}
+            ></ReactSelect>
+          </li>
+        </ul>
+      );
+    case "ESP":
+      return (
+        <ul style={{ listStyle: "none" }}>
+          <li className="half-margin-top">
+            <ReactSelect
+              label="ESP Encryption"
+              value={{ label: layer.espEncr, value: layer.espEncr }}
+              options={espEncrItems.map((esp) => {
+                return { label: esp, value: esp };
+              })}
+              onChange={(selectedValue: {
+                label: EspEncryption;
+                value: EspEncryption;
+              }) => {
+                onChange({
+                  ...layer,
+                  espEncr: selectedValue.value,
+                  icvLength: icvLengthFor(selectedValue.value, layer.icvLength),
+                });
+              }}
+            ></ReactSelect>
+          </li>
+          <li className="half-margin-top">
+            <ReactSelect
+              label="ESP Integrity"
+              value={{ label: layer.espInte, value: layer.espInte }}
+              options={espHmacItems.map((esp) => {
+                return { label: esp, value: esp };
+              })}
+              onChange={(selectedValue: { label: EspHmac; value: EspHmac }) => {
+                onChange({ ...layer, espInte: selectedValue.value });
+              }}
+            ></ReactSelect>
+          </li>
+          {(espEncryptionSpecOf(layer.espEncr)?.icvLengths.length ?? 0) > 1 ? (
+            <li className="half-margin-top">
+              <ReactSelect
+                label="ESP ICV Length"
+                options={espEncryptionSpecOf(layer.espEncr)?.icvLengths.map(
+                  (icv) => {
+                    return { label: `${icv} bytes`, value: icv };
+                  }
+                )}
+                value={{
+                  label: `${aeadIcvLengthOf(layer)} bytes`,
+                  value: aeadIcvLengthOf(layer),
+                }}
+                onChange={(selectedValue: { label: string; value: number }) => {
+                  onChange({ ...layer, icvLength: selectedValue.value });
+                }}
+              ></ReactSelect>
+            </li>
+          ) : null}
+          <PaddingFields
+            settings={layer.padding}
+            onChange={(padding) => onChange({ ...layer, padding })}
+          />
+        </ul>
+      );
+  }
+}
+
+export default StackLayerEditor;
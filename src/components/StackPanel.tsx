@@ -0,0 +1,192 @@
+import { useLayoutEffect, useRef, useState } from "react";
+import { Panel, ReactSelect, Button } from "@vkumov/react-cui-2.0";
+
+import {
+  EncapsulationStack,
+  IFormState,
+  StackLayer,
+  calculateStack,
+  newStackLayer,
+  stackLayerKinds,
+  stackPresets,
+  validateStack,
+} from "../lib";
+import PacketChart from "./PacketChart";
+import PacketSummary from "./PacketSummary";
+import StackLayerEditor from "./StackLayerEditor";
+import UnderlayFields from "./UnderlayFields";
+
+interface StackPanelProps {
+  form: IFormState;
+}
+
+/** Builder for custom encapsulation stacks such as IPsec inside IPsec. */
+function StackPanel({ form }: StackPanelProps) {
+  const [presetName, setPresetName] = useState<string>(stackPresets[0].name);
+  const [stack, setStack] = useState<EncapsulationStack>(() =>
+    stackPresets[0].build(form)
+  );
+  const [newKind, setNewKind] = useState<StackLayer["kind"]>("ESP");
+  const [panelWidth, setPanelWidth] = useState<number>(0);
+  const chartPanel = useRef<HTMLDivElement>(null);
+
+  useLayoutEffect(() => {
+    setPanelWidth(chartPanel.current?.getBoundingClientRect().width ?? 0);
+  }, []);
+
+  const { packetSize, innerProtocol, inner } = form;
+  const alert = validateStack(packetSize, innerProtocol, stack, inner);
+  const result = alert
+    ? null
+    : calculateStack(packetSize, innerProtocol, stack, inner);
+
+  const setLayers = (layers: StackLayer[]) => {
+    setStack({ ...stack, layers });
+  };
+  const moveLayer = (index: number, offset: number) => {
+    const layers = [...stack.layers];
+    const [layer] = layers.splice(index, 1);
+    layers.splice(index + offset, 0, layer);
+    setLayers(layers);
+  };
+
+  return (
+    <Panel>
+      <h3>Encapsulation Stack</h3>
+      <p>
+        Layers are applied to the {packetSize} byte inner {innerProtocol} packet
+        from the top down. ESP, AH, NAT-T and ESP-in-TCP go behind the outermost
+        IP header, so tunnel mode is an IP layer followed by ESP or AH.
+      </p>
+      <div className="row">
+        <div className="col">
+          <ReactSelect
+            label="Preset"
+            options={stackPresets.map((preset) => {
+              return { label: preset.name, value: preset.name };
+            })}
+            value={{ label: presetName, value: presetName }}
+            onChange={(selectedValue: { label: string; value: string }) => {
+              const preset = stackPresets.find(
+                (preset) => preset.name === selectedValue.value
+              );
+              if (preset) {
+                setPresetName(preset.name);
+                setStack(preset.build(form));
+              }
+            }}
+          ></ReactSelect>
+        </div>
+        <div className="col">
+          <Button
+            color="secondary"
+            size="small"
+            onClick={() => {
+              const preset = stackPresets.find(
+                (preset) => preset.name === presetName
+              );
+              if (preset) {
+                setStack(preset.build(form));
+              }
+            }}
+          >
+            Reload Preset
+          </Button>
+        </div>
+      </div>
+      <ol>
+        {stack.layers.map((layer, index) => (
+          <li key={index} className="half-margin-top">
+            <div className="row">
+              <div className="col">
+                <strong>{layer.kind}</strong>
+              </div>
+              <div className="col">
+                <Button
+                  color="secondary"
+                  size="small"
+                  disabled={index === 0}
+                  onClick={() => moveLayer(index, -1)}
+                >
+                  Up
+                </Button>
+                <Button
+                  color="secondary"
+                  size="small"
+                  disabled={index === stack.layers.length - 1}
+                  onClick={() => moveLayer(index, 1)}
+                >
+                  Down
+                </Button>
+                <Button
+                  color="danger"
+                  size="small"
+                  onClick={() =>
+                    setLayers(stack.layers.filter((_, i) => i !== index))
+                  }
+                >
+                  Remove
+                </Button>
+              </div>
+            </div>
+            <StackLayerEditor
+              layer={layer}
+              onChange={(newLayer) => {
+                const layers = [...stack.layers];
+                layers[index] = newLayer;
+                setLayers(layers);
+              }}
+            />
+          </li>
+        ))}
+      </ol>
+      <div className="row">
+        <div className="col">
+          <ReactSelect
+            label="Layer"
+            options={stackLayerKinds.map((kind) => {
+              return { label: kind, value: kind };
+            })}
+            value={{ label: newKind, value: newKind }}
+            onChange={(selectedValue: {
+              label: StackLayer["kind"];
+              value: StackLayer["kind"];
+            }) => {
+              setNewKind(selectedValue.value);
+            }}
+          ></ReactSelect>
+        </div>
+        <div className="col">
+          <Button
+            color="secondary"
+            size="small"
+            onClick={() => setLayers([...stack.layers, newStackLayer(newKind)])}
+          >
+            Add Layer
+          </Button>
+        </div>
+      </div>
+      <ul style={{ listStyle: "none" }}>
+        <UnderlayFields
+          settings={stack.underlay}
+          onChange={(underlay) => setStack({ ...stack, underlay })}
+        />
+      </ul>
+      {alert ? (
+        <div className="half-margin-top text-danger">{alert}</div>
+      ) : null}
+      <div ref={chartPanel} className="half-margin">
+        {result ? (
+          <PacketChart
+            layers={result.layers}
+            width={panelWidth * 0.97}
+            scaleBytes={result.wireSize}
+          />
+        ) : null}
+      </div>
+      {result ? <PacketSummary result={result} /> : null}
+    </Panel>
+  );
+}
+
+export default StackPanel;
@@ -0,0 +1,118 @@
+import { useMemo, useState } from "react";
+import { Panel, Input, Button } from "@vkumov/react-cui-2.0";
+
+import {
+  defaultSweepRangeOf,
+  IFormState,
+  ipFamiliesOf,
+  SweepRange,
+  sweepPacketSizes,
+  sweepToCsv,
+  validateMtu,
+  validateSweepRange,
+} from "../lib";
+import { downloadFile } from "../utils/download";
+import LineChart from "./LineChart";
+
+interface SweepPanelProps {
+  form: IFormState;
+  pathMtu: number;
+  onPathMtuChange: (pathMtu: number) => void;
+}
+
+/** Overhead versus inner packet size, showing the ESP padding sawtooth. */
+function SweepPanel({ form, pathMtu, onPathMtuChange }: SweepPanelProps) {
+  const [range, setRange] = useState<SweepRange>(() =>
+    defaultSweepRangeOf(form)
+  );
+
+  const alert =
+    validateSweepRange(form, range) ||
+    validateMtu(pathMtu, ipFamiliesOf(form).outer);
+  const points = useMemo(
+    () => (alert ? [] : sweepPacketSizes(form, range, pathMtu)),
+    [alert, form, range, pathMtu]
+  );
+  const firstExceeding = points.find((point) => point.exceedsMtu);
+
+  const rangeInput = (label: string, key: keyof SweepRange) => (
+    <div className="col">
+      <Input
+        label={label}
+        type="number"
+        value={range[key]}
+        onChange={(elm: React.ChangeEvent<HTMLInputElement>) => {
+          setRange({ ...range, [key]: parseInt(elm.currentTarget.value) });
+        }}
+      ></Input>
+    </div>
+  );
+
+  return (
+    <Panel>
+      <h3>Overhead Sweep</h3>
+      <div className="row">
+        {rangeInput("Start Inner Size", "start")}
+        {rangeInput("End Inner Size", "end")}
+        {rangeInput("Step", "step")}
+        <div className="col">
+          <Input
+            label="MTU"
+            type="number"
+            value={pathMtu}
+            onChange={(elm: React.ChangeEvent<HTMLInputElement>) => {
+              onPathMtuChange(parseInt(elm.currentTarget.value));
+            }}
+          ></Input>
+        </div>
+      </div>
+      {alert ? (
+        <div className="half-margin-top text-danger">{alert}</div>
+      ) : (
+        <div className="half-margin-top">
+          <p>
+            {firstExceeding
+              ? `Encrypted packets exceed the MTU of ${pathMtu} bytes from an inner size of ${firstExceeding.packetSize} bytes (shown in red).`
+              : `All encrypted packets fit in the MTU of ${pathMtu} bytes.`}
+          </p>
+          <LineChart
+            title="Total IPsec Packet Size"
+            xLabel="Inner Packet Size (bytes)"
+            yLabel="Total Size (bytes)"
+            points={points.map((point) => ({
+              x: point.packetSize,
+              y: point.totalSize,
+              highlight: point.exceedsMtu,
+            }))}
+            threshold={{ y: pathMtu, label: `MTU ${pathMtu}` }}
+          />
+          <LineChart
+            title="Overhead Percent"
+            xLabel="Inner Packet Size (bytes)"
+            yLabel="Overhead (%)"
+            points={points.map((point) => ({
+              x: point.packetSize,
+              y: point.overheadPercent,
+              highlight: point.exceedsMtu,
+            }))}
+          />
+          <Button
+            color="secondary"
+            size="small"
+            onClick={() =>
+              downloadFile(
+                "ipsec-overhead-sweep.csv",
+                sweepToCsv(points),
+                "text/csv"
+              )
+            }
+          >
+            Download CSV
+          </Button>
+        </div>
+      )}
+    </Panel>
+  );
+}
+
+export default SweepPanel;
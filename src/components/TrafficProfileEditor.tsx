@@ -0,0 +1,141 @@
+import { Input, ReactSelect, Button } from "@vkumov/react-cui-2.0";
+import { GenericTable } from "@vkumov/react-cui-2.0/Table";
+
+import {
+  copyProfile,
+  IFormState,
+  TrafficClass,
+  TrafficProfile,
+  trafficProfiles,
+} from "../lib";
+
+interface TrafficProfileEditorProps {
+  profile: TrafficProfile;
+  // Form of the calculator, whose packet size is used for new and single
+  // size classes
+  form: IFormState;
+  // Heading of the rate column
+  rateLabel: string;
+  onChange: (profile: TrafficProfile) => void;
+}
+
+/** Preset selection and table of the packet sizes of a traffic profile. */
+function TrafficProfileEditor({
+  profile,
+  form,
+  rateLabel,
+  onChange,
+}: TrafficProfileEditorProps) {
+  const updateClass = (index: number, trafficClass: TrafficClass) => {
+    const classes = [...profile.classes];
+    classes[index] = trafficClass;
+    onChange({ ...profile, classes });
+  };
+
+  return (
+    <div>
+      <div className="row half-margin-top">
+        <div className="col">
+          <ReactSelect
+            label="Traffic Profile"
+            options={trafficProfiles.map((preset) => {
+              return { label: preset.name, value: preset.name };
+            })}
+            value={{ label: profile.name, value: profile.name }}
+            onChange={(selectedValue: { label: string; value: string }) => {
+              const preset = trafficProfiles.find(
+                (preset) => preset.name === selectedValue.value
+              );
+              if (preset) {
+                onChange(copyProfile(preset, form));
+              }
+            }}
+          ></ReactSelect>
+        </div>
+      </div>
+      <GenericTable striped>
+        <thead>
+          <tr>
+            <th>Name</th>
+            <th>Inner Packet Size</th>
+            <th>{rateLabel}</th>
+            <th></th>
+          </tr>
+        </thead>
+        <tbody>
+          {profile.classes.map((trafficClass, index) => (
+            <tr key={index}>
+              <td>
+                <Input
+                  value={trafficClass.name}
+                  onChange={(elm: React.ChangeEvent<HTMLInputElement>) => {
+                    updateClass(index, {
+                      ...trafficClass,
+                      name: elm.currentTarget.value,
+                    });
+                  }}
+                ></Input>
+              </td>
+              <td>
+                <Input
+                  type="number"
+                  value={trafficClass.packetSize}
+                  onChange={(elm: React.ChangeEvent<HTMLInputElement>) => {
+                    updateClass(index, {
+                      ...trafficClass,
+                      packetSize: parseInt(elm.currentTarget.value),
+                    });
+                  }}
+                ></Input>
+              </td>
+              <td>
+                <Input
+                  type="number"
+                  value={trafficClass.rate}
+                  onChange={(elm: React.ChangeEvent<HTMLInputElement>) => {
+                    updateClass(index, {
+                      ...trafficClass,
+                      rate: parseFloat(elm.currentTarget.value),
+                    });
+                  }}
+                ></Input>
+              </td>
+              <td>
+                <Button
+                  color="danger"
+                  size="small"
+                  onClick={() =>
+                    onChange({
+                      ...profile,
+                      classes: profile.classes.filter((_, i) => i !== index),
+                    })
+                  }
+                >
+                  Remove
+                </Button>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </GenericTable>
+      <Button
+        color="secondary"
+        size="small"
+        onClick={() =>
+          onChange({
+            ...profile,
+            name: "Custom",
+            classes: [
+              ...profile.classes,
+              { name: "Custom", packetSize: form.packetSize, rate: 1 },
+            ],
+          })
+        }
+      >
+        Add Packet Size
+      </Button>
+    </div>
+  );
+}
+
+export default TrafficProfileEditor;
@@ -0,0 +1,324 @@
+import { Input, ReactSelect, Switch } from "@vkumov/react-cui-2.0";
+
+import {
+  AhHmac,
+  Diagnostic,
+  EspEncryption,
+  EspHmac,
+  IFormState,
+  IPVersion,
+  OverlayType,
+  TunnelMode,
+  aeadIcvLengthOf,
+  ahHmacItems,
+  espEncrItems,
+  espEncryptionSpecOf,
+  espHmacItems,
+  icvLengthFor,
+  ipVersions,
+  overlayTypes,
+  tunnelModes,
+} from "../lib";
+import FieldMessages from "./FieldMessages";
+import InnerFields from "./InnerFields";
+import OverlayOptions from "./OverlayOptions";
+import PaddingFields from "./PaddingFields";
+import UnderlayFields from "./UnderlayFields";
+
+interface TransformFormProps {
+  form: IFormState;
+  // Errors and advisories shown next to the settings they concern
+  diagnostics?: Diagnostic[];
+  onChange: (form: IFormState) => void;
+}
+
+/** Inputs for every setting of an `IFormState`. */
+function TransformForm({ form, diagnostics, onChange }: TransformFormProps) {
+  return (
+    <div className="row">
+      <div className="col">
+        <ul style={{ listStyle: "none" }}>
+          <li className="half-margin-top">
+            <Input
+              label="Inner Packet Size"
+              type="number"
+              value={form.packetSize}
+              onChange={(elm: React.ChangeEvent<HTMLInputElement>) => {
+                const newValue = { ...form };
+                newValue.packetSize = parseInt(elm.currentTarget.value);
+                onChange(newValue);
+              }}
+            ></Input>
+            <FieldMessages diagnostics={diagnostics} field="packetSize" />
+          </li>
+          <li className="half-margin-top">
+            <ReactSelect
+              label="Authentication Header (AH)"
+              options={ahHmacItems.map((ah) => {
+                return { label: ah, value: ah };
+              })}
+              value={{
+                label: form.transform.ahInte,
+                value: form.transform.ahInte,
+              }}
+              onChange={(selectedValue: { value: AhHmac; label: AhHmac }) => {
+                const newValue = { ...form };
+                newValue.transform.ahInte = selectedValue.value;
+                onChange(newValue);
+              }}
+            ></ReactSelect>
+            <FieldMessages diagnostics={diagnostics} field="transform.ahInte" />
+          </li>
+          <li className="half-margin-top">
+            <ReactSelect
+              label="Encapsulating Security Protocol (ESP) - Encryption"
+              options={espEncrItems.map((esp) => {
+                return { label: esp, value: esp };
+              })}
+              value={{
+                label: form.transform.espEncr,
+                value: form.transform.espEncr,
+              }}
+              onChange={(selectedValue: {
+                label: EspEncryption;
+                value: EspEncryption;
+              }) => {
+                const newValue = { ...form };
+                newValue.transform.espEncr = selectedValue.value;
+                newValue.transform.icvLength = icvLengthFor(
+                  selectedValue.value,
+                  form.transform.icvLength
+                );
+                onChange(newValue);
+              }}
+            ></ReactSelect>
+            <FieldMessages
+              diagnostics={diagnostics}
+              field="transform.espEncr"
+            />
+          </li>
+          <li className="half-margin-top">
+            <ReactSelect
+              label="Encapsulating Security Protocol (ESP) - Integrity"
+              options={espHmacItems.map((esp) => {
+                return { label: esp, value: esp };
+              })}
+              value={{
+                label: form.transform.espInte,
+                value: form.transform.espInte,
+              }}
+              onChange={(selectedValue: { label: EspHmac; value: EspHmac }) => {
+                const newValue = { ...form };
+                newValue.transform.espInte = selectedValue.value;
+                onChange(newValue);
+              }}
+            ></ReactSelect>
+            <FieldMessages
+              diagnostics={diagnostics}
+              field="transform.espInte"
+            />
+          </li>
+          {(espEncryptionSpecOf(form.transform.espEncr)?.icvLengths.length ??
+            0) > 1 ? (
+            <li className="half-margin-top">
+              <ReactSelect
+                label="ESP ICV Length"
+                options={espEncryptionSpecOf(
+                  form.transform.espEncr
+                )?.icvLengths.map((icv) => {
+                  return { label: `${icv} bytes`, value: icv };
+                })}
+                value={{
+                  label: `${aeadIcvLengthOf(form.transform)} bytes`,
+                  value: aeadIcvLengthOf(form.transform),
+                }}
+                onChange={(selectedValue: { label: string; value: number }) => {
+                  const newValue = { ...form };
+                  newValue.transform.icvLength = selectedValue.value;
+                  onChange(newValue);
+                }}
+              ></ReactSelect>
+              <FieldMessages
+                diagnostics={diagnostics}
+                field="transform.icvLength"
+              />
+            </li>
+          ) : null}
+          <li className="half-margin-top">
+            <ReactSelect
+              label="IPsec Transform Mode"
+              value={{
+                label: form.transform.tunnelMode,
+                value: form.transform.tunnelMode,
+              }}
+              options={tunnelModes.map((mode) => {
+                return { value: mode, label: mode };
+              })}
+              onChange={(selectedValue: {
+                label: TunnelMode;
+                value: TunnelMode;
+              }) => {
+                const newValue = { ...form };
+                newValue.transform.tunnelMode = selectedValue.value;
+                onChange(newValue);
+              }}
+            ></ReactSelect>
+          </li>
+          <PaddingFields
+            settings={form.padding}
+            diagnostics={diagnostics}
+            onChange={(padding) => onChange({ ...form, padding })}
+          />
+        </ul>
+      </div>
+      <div className="col">
+        <ul style={{ listStyle: "none" }}>
+          <li className="half-margin-top">
+            <ReactSelect
+              label="Inner IP Version"
+              value={{
+                label: form.innerProtocol,
+                value: form.innerProtocol,
+              }}
+              options={ipVersions.map((version) => {
+                return { value: version, label: version };
+              })}
+              onChange={(selectedValue: {
+                label: IPVersion;
+                value: IPVersion;
+              }) => {
+                const newValue = { ...form };
+                newValue.innerProtocol = selectedValue.value;
+                onChange(newValue);
+              }}
+            ></ReactSelect>
+          </li>
+          <InnerFields
+            settings={form.inner}
+            innerProtocol={form.innerProtocol}
+            diagnostics={diagnostics}
+            onChange={(inner) => onChange({ ...form, inner })}
+          />
+          {form.transform.tunnelMode === "Tunnel" ||
+          form.tunnelSetting.overlay !== "None" ? (
+            <li className="half-margin-top">
+              <ReactSelect
+                label="Outer (IPsec) IP Version"
+                value={{
+                  label: form.transport.ipProtocol,
+                  value: form.transport.ipProtocol,
+                }}
+                options={ipVersions.map((version) => {
+                  return { value: version, label: version };
+                })}
+                onChange={(selectedValue: {
+                  label: IPVersion;
+                  value: IPVersion;
+                }) => {
+                  const newValue = { ...form };
+                  newValue.transport.ipProtocol = selectedValue.value;
+                  onChange(newValue);
+                }}
+              ></ReactSelect>
+            </li>
+          ) : null}
+          <li className="half-margin-top">
+            <Switch
+              checked={form.transport.natTraver}
+              left="NAT Traversal (NAT-T)"
+              onChange={() => {
+                const newValues = { ...form };
+                newValues.transport.natTraver = !form.transport.natTraver;
+                onChange(newValues);
+              }}
+            ></Switch>
+            <FieldMessages
+              diagnostics={diagnostics}
+              field="transport.natTraver"
+            />
+          </li>
+          <li className="half-margin-top">
+            <Switch
+              checked={form.transport.tcpEncap}
+              left="ESP-in-TCP (RFC 8229)"
+              onChange={() => {
+                const newValues = { ...form };
+                newValues.transport.tcpEncap = !form.transport.tcpEncap;
+                onChange(newValues);
+              }}
+            ></Switch>
+            <FieldMessages
+              diagnostics={diagnostics}
+              field="transport.tcpEncap"
+            />
+          </li>
+          <li className="half-margin-top">
+            <ReactSelect
+              label="Overlay Encapsulation"
+              value={{
+                label: form.tunnelSetting.overlay,
+                value: form.tunnelSetting.overlay,
+              }}
+              options={overlayTypes.map((overlay) => {
+                return { value: overlay, label: overlay };
+              })}
+              onChange={(selectedValue: {
+                label: OverlayType;
+                value: OverlayType;
+              }) => {
+                const newValue = { ...form };
+                newValue.tunnelSetting.overlay = selectedValue.value;
+                // GRE options are only valid with the GRE overlay
+                if (selectedValue.value !== "GRE") {
+                  newValue.tunnelSetting.greKey = false;
+                  newValue.tunnelSetting.greChecksum = false;
+                  newValue.tunnelSetting.greSequence = false;
+                }
+                onChange(newValue);
+              }}
+            ></ReactSelect>
+          </li>
+          {form.tunnelSetting.overlay !== "None" &&
+          form.transform.tunnelMode === "Tunnel" ? (
+            <li className="half-margin-top">
+              <ReactSelect
+                label={`${form.tunnelSetting.overlay} Delivery IP Version`}
+                value={{
+                  label: form.tunnelSetting.deliveryProtocol,
+                  value: form.tunnelSetting.deliveryProtocol,
+                }}
+                options={ipVersions.map((version) => {
+                  return { value: version, label: version };
+                })}
+                onChange={(selectedValue: {
+                  label: IPVersion;
+                  value: IPVersion;
+                }) => {
+                  const newValue = { ...form };
+                  newValue.tunnelSetting.deliveryProtocol = selectedValue.value;
+                  onChange(newValue);
+                }}
+              ></ReactSelect>
+            </li>
+          ) : null}
+          <OverlayOptions
+            settings={form.tunnelSetting}
+            diagnostics={diagnostics}
+            onChange={(tunnelSetting) => onChange({ ...form, tunnelSetting })}
+          />
+        </ul>
+      </div>
+      <div className="col">
+        <ul style={{ listStyle: "none" }}>
+          <UnderlayFields
+            settings={form.underlay}
+            diagnostics={diagnostics}
+            onChange={(underlay) => onChange({ ...form, underlay })}
+          />
+        </ul>
+      </div>
+    </div>
+  );
+}
+
+export default TransformForm;
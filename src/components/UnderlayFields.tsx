@@ -0,0 +1,82 @@
+import { Input, ReactSelect, Switch } from "@vkumov/react-cui-2.0";
+
+import { Diagnostic, LinkType, linkTypes, UnderlaySettings } from "../lib";
+import FieldMessages from "./FieldMessages";
+
+interface UnderlayFieldsProps {
+  settings: UnderlaySettings;
+  // Errors and advisories of the form the settings belong to
+  diagnostics?: Diagnostic[];
+  onChange: (settings: UnderlaySettings) => void;
+}
+
+/** List items for the link layer carrying the encrypted packet. */
+function UnderlayFields({
+  settings,
+  diagnostics,
+  onChange,
+}: UnderlayFieldsProps) {
+  return (
+    <>
+      <li className="half-margin-top">
+        <ReactSelect
+          label="Underlay Link Type"
+          value={{
+            label: settings.linkType,
+            value: settings.linkType,
+          }}
+          options={linkTypes.map((linkType) => {
+            return { value: linkType, label: linkType };
+          })}
+          onChange={(selectedValue: { label: LinkType; value: LinkType }) => {
+            onChange({ ...settings, linkType: selectedValue.value });
+          }}
+        ></ReactSelect>
+      </li>
+      {settings.linkType !== "None" ? (
+        <li className="half-margin-top">
+          <Switch
+            checked={settings.pppoe}
+            left="PPPoE"
+            onChange={() => {
+              onChange({ ...settings, pppoe: !settings.pppoe });
+            }}
+          ></Switch>
+          <FieldMessages diagnostics={diagnostics} field="underlay.pppoe" />
+        </li>
+      ) : null}
+      {settings.linkType === "Ethernet" || settings.pppoe ? (
+        <li className="half-margin-top">
+          <Input
+            label="802.1Q Tags (2 for QinQ)"
+            type="number"
+            value={settings.vlanTags}
+            onChange={(elm: React.ChangeEvent<HTMLInputElement>) => {
+              onChange({
+                ...settings,
+                vlanTags: parseInt(elm.currentTarget.value),
+              });
+            }}
+          ></Input>
+          <FieldMessages diagnostics={diagnostics} field="underlay.vlanTags" />
+        </li>
+      ) : null}
+      <li className="half-margin-top">
+        <Input
+          label="MPLS Labels"
+          type="number"
+          value={settings.mplsLabels}
+          onChange={(elm: React.ChangeEvent<HTMLInputElement>) => {
+            onChange({
+              ...settings,
+              mplsLabels: parseInt(elm.currentTarget.value),
+            });
+          }}
+        ></Input>
+        <FieldMessages diagnostics={diagnostics} field="underlay.mplsLabels" />
+      </li>
+    </>
+  );
+}
+
+export default UnderlayFields;
@@ -0,0 +1,94 @@
+import { useLayoutEffect, useRef, useState } from "react";
+import { Panel } from "@vkumov/react-cui-2.0";
+import { GenericTable } from "@vkumov/react-cui-2.0/Table";
+
+import {
+  calculatePacket,
+  calculateVpn,
+  IFormState,
+  PacketResult,
+  vpnCiphers,
+  vpnTechnologies,
+} from "../lib";
+import PacketChart from "./PacketChart";
+
+interface VpnComparePanelProps {
+  form: IFormState;
+}
+
+/** The inner packet of the form carried by IPsec and by other technologies. */
+function VpnComparePanel({ form }: VpnComparePanelProps) {
+  const [panelWidth, setPanelWidth] = useState<number>(0);
+  const chartPanel = useRef<HTMLDivElement>(null);
+
+  useLayoutEffect(() => {
+    setPanelWidth(chartPanel.current?.getBoundingClientRect().width ?? 0);
+  }, []);
+
+  const rows: { name: string; cipher: string; result: PacketResult }[] = [
+    {
+      name: "IPsec",
+      cipher: form.transform.espEncr,
+      result: calculatePacket(form),
+    },
+    ...vpnTechnologies.map((technology) => ({
+      name: technology,
+      cipher: vpnCiphers[technology],
+      result: calculateVpn(form, technology),
+    })),
+  ];
+
+  // All charts share one byte scale, set by the largest packet
+  const scaleBytes = Math.max(...rows.map((row) => row.result.wireSize), 1);
+  const imageWidth = panelWidth ? panelWidth * 0.97 : 0;
+
+  return (
+    <Panel>
+      <h3>Compare VPN Technologies</h3>
+      <div>
+        The same inner packet carried by other VPN and link encryption
+        technologies, with the outer IP version and underlay of the form.
+      </div>
+      <div ref={chartPanel} className="half-margin">
+        {rows.map((row) => (
+          <div key={row.name}>
+            <h5>{row.name}</h5>
+            <PacketChart
+              layers={row.result.layers}
+              width={imageWidth}
+              scaleBytes={scaleBytes}
+            />
+          </div>
+        ))}
+      </div>
+      <GenericTable striped>
+        <thead>
+          <tr>
+            <th>Technology</th>
+            <th>Cipher</th>
+            <th>Total Size</th>
+            <th>Overhead</th>
+            <th>Overhead %</th>
+            <th>On the Wire</th>
+            <th>Efficiency</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map(({ name, cipher, result }) => (
+            <tr key={name}>
+              <td>{name}</td>
+              <td>{cipher}</td>
+              <td>{result.totalSize}</td>
+              <td>{result.overhead}</td>
+              <td>{result.overheadPercent.toFixed(1)}%</td>
+              <td>{result.wireSize}</td>
+              <td>{result.efficiency.toFixed(1)}%</td>
+            </tr>
+          ))}
+        </tbody>
+      </GenericTable>
+    </Panel>
+  );
+}
+
+export default VpnComparePanel;
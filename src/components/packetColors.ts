@@ -0,0 +1,73 @@
+const colorMap: { [name: string]: string } = {
+  "IPv4 Options": "khaki",
+  "IPv6 Hop-by-Hop Options": "khaki",
+  "IPv6 Segment Routing Header": "khaki",
+  "IPv6 Destination Options": "khaki",
+  "TCP Header": "lemonchiffon",
+  "UDP Header": "lemonchiffon",
+  "ICMP Header": "lemonchiffon",
+  "ICMPv6 Header": "lemonchiffon",
+  "Application Data": "palegoldenrod",
+  "UDP Header (NAT-T)": "plum",
+  "ESP-in-TCP": "plum",
+  "AH Header": "lightskyblue",
+  "AH IV": "lightblue",
+  "AH Digest": "lightblue",
+  "AH Padding": "lightblue",
+  "ESP Header": "lightgreen",
+  "ESP IV": "palegreen",
+  "GRE Header": "palevioletred",
+  "UDP Header (VXLAN)": "wheat",
+  "VXLAN Header": "burlywood",
+  "UDP Header (GENEVE)": "wheat",
+  "GENEVE Header": "sandybrown",
+  "L2TPv3 Header": "darkseagreen",
+  "Inner Ethernet Header": "lightcyan",
+  "UDP Header (WireGuard)": "plum",
+  "WireGuard Header": "mediumaquamarine",
+  "WireGuard Trailer": "mediumaquamarine",
+  "MACsec SecTAG": "lightcoral",
+  "MACsec ICV": "lightcoral",
+  "UDP Header (DTLS)": "plum",
+  "DTLS Record Header": "lightseagreen",
+  "DTLS Trailer": "lightseagreen",
+  "UDP Header (OpenVPN)": "plum",
+  "TCP Header (OpenVPN)": "plum",
+  "OpenVPN Header": "orange",
+  "TFC Padding": "honeydew",
+  "ESP Trailer": "lightgreen",
+  "Preamble + SFD": "gainsboro",
+  "Ethernet Header": "lightsteelblue",
+  "802.1Q Tags": "powderblue",
+  "PPPoE/PPP": "thistle",
+  "MPLS Label Stack": "peachpuff",
+  "Ethernet Pad": "whitesmoke",
+  "Ethernet FCS": "lightsteelblue",
+  "Inter-Frame Gap": "gainsboro",
+  "RFC 2684": "lavender",
+  "AAL5 Trailer": "lavender",
+  "ATM Cell Headers": "silver",
+};
+
+/** Tunnels whose new IP header is colored like the IPsec one. */
+const tunnelNames = ["IPsec", "WireGuard", "DTLS", "OpenVPN"];
+
+/** Returns the color of a packet field or layer (for chart and table). */
+export function packetColorOf(label: string) {
+  // Nested IPsec layers are numbered, e.g. "ESP Header (2)"
+  const name = label.replace(/ \(\d+\)$/, "");
+  if (colorMap[name]) {
+    return colorMap[name];
+  }
+  const newHeader = label.match(/^New IPv[46] Header for (.*)$/);
+  if (newHeader) {
+    return tunnelNames.includes(newHeader[1]) ? "navajowhite" : "lightpink";
+  }
+  if (/^Original IPv[46] Header$/.test(label)) {
+    return "khaki";
+  }
+  if (/^Original IPv[46] Payload$/.test(label)) {
+    return "palegoldenrod";
+  }
+  return "white";
+}
@@ -0,0 +1,54 @@
+import { useEffect, useRef, useState } from "react";
+
+import { decodePermalink, encodePermalink, IFormState } from "../lib";
+
+/** Changes less than this many milliseconds apart share a history entry. */
+const HISTORY_MERGE_MS = 1000;
+
+/**
+ * Keeps the form in sync with the URL query string.
+ * A burst of changes, such as typing in a field, pushes one history entry,
+ * so Back and Forward step through configuration changes. Returns the form,
+ * its setter and any messages from decoding the link.
+ */
+export function usePermalink() {
+  const [decoded, setDecoded] = useState(() =>
+    decodePermalink(window.location.search)
+  );
+  // Links that were loaded or navigated to are repaired in place
+  const pushNext = useRef(false);
+  const lastChange = useRef(0);
+  const { form, messages } = decoded;
+
+  const setForm = (newForm: IFormState) => {
+    pushNext.current = true;
+    setDecoded({ form: newForm, messages: [] });
+  };
+
+  useEffect(() => {
+    const search = `?${encodePermalink(form)}`;
+    if (search !== window.location.search) {
+      const now = Date.now();
+      if (pushNext.current && now - lastChange.current >= HISTORY_MERGE_MS) {
+        window.history.pushState(null, "", search);
+      } else {
+        window.history.replaceState(null, "", search);
+      }
+      if (pushNext.current) {
+        lastChange.current = now;
+      }
+    }
+    pushNext.current = false;
+  }, [form]);
+
+  useEffect(() => {
+    const onPopState = () => {
+      pushNext.current = false;
+      setDecoded(decodePermalink(window.location.search));
+    };
+    window.addEventListener("popstate", onPopState);
+    return () => window.removeEventListener("popstate", onPopState);
+  }, []);
+
+  return [form, setForm, messages] as const;
+}
@@ -0,0 +1,48 @@
+import { useEffect, useState } from "react";
+
+import { libraryToJson, parseLibrary, SavedScenario } from "../lib";
+
+/** Local storage key of the scenario library. */
+const STORAGE_KEY = "ipsec-overhead-calculator.scenarios";
+
+function loadLibrary() {
+  try {
+    const json = window.localStorage.getItem(STORAGE_KEY);
+    return json
+      ? parseLibrary(json)
+      : { scenarios: [], unreadable: [], messages: [] };
+  } catch {
+    return {
+      scenarios: [],
+      unreadable: [],
+      messages: ["The saved scenarios could not be read from local storage."],
+    };
+  }
+}
+
+/**
+ * Keeps the scenario library in browser local storage.
+ * Returns the saved scenarios, their setter and any messages from loading
+ * them.
+ */
+export function useScenarioLibrary() {
+  const [loaded] = useState(loadLibrary);
+  const [scenarios, setScenarios] = useState<SavedScenario[]>(loaded.scenarios);
+
+  useEffect(() => {
+    if (scenarios === loaded.scenarios) {
+      return;
+    }
+    try {
+      // Scenarios that could not be read are kept for a later version
+      window.localStorage.setItem(
+        STORAGE_KEY,
+        libraryToJson(scenarios, loaded.unreadable)
+      );
+    } catch {
+      // Private browsing or a full quota keeps the library for this visit only
+    }
+  }, [scenarios, loaded]);
+
+  return [scenarios, setScenarios, loaded.messages] as const;
+}
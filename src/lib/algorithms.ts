@@ -0,0 +1,152 @@
+import { AhHmac, EspEncryption, EspHmac } from "./types";
+
+/** Sizes used by an ESP encryption algorithm. */
+export interface EspEncryptionSpec {
+  // Size of the explicit IV carried in every packet
+  iv: number;
+  // Payload and trailer are padded to a multiple of this size
+  blockSize: number;
+  // Combined mode (AEAD) ciphers provide their own ICV
+  aead: boolean;
+  // ICV sizes the cipher supports, the first one is the default
+  icvLengths: number[];
+  // Defining RFC
+  rfc: string;
+}
+
+/** Sizes used by an ESP or AH integrity algorithm. */
+export interface IntegritySpec {
+  // Size of the (truncated) ICV
+  icv: number;
+  // Size of the explicit IV carried in every packet (GMAC only)
+  iv: number;
+  // Integrity-only algorithm that replaces ESP encryption (ESP-GMAC)
+  authOnly: boolean;
+  // Defining RFC
+  rfc: string;
+}
+
+export const espEncryptionSpecs: {
+  [name in Exclude<EspEncryption, "None">]: EspEncryptionSpec;
+} = {
+  "ESP-DES/3DES": {
+    iv: 8,
+    blockSize: 8,
+    aead: false,
+    icvLengths: [],
+    rfc: "RFC 2405/2451",
+  },
+  "ESP-AES-128/192/256": {
+    iv: 16,
+    blockSize: 16,
+    aead: false,
+    icvLengths: [],
+    rfc: "RFC 3602",
+  },
+  "ESP-AES-CTR-128/192/256": {
+    iv: 8,
+    blockSize: 4,
+    aead: false,
+    icvLengths: [],
+    rfc: "RFC 3686",
+  },
+  "ESP-GCM-128/192/256": {
+    iv: 8,
+    blockSize: 4,
+    aead: true,
+    icvLengths: [16, 12, 8],
+    rfc: "RFC 4106",
+  },
+  "ESP-CCM-128/192/256": {
+    iv: 8,
+    blockSize: 4,
+    aead: true,
+    icvLengths: [16, 12, 8],
+    rfc: "RFC 4309",
+  },
+  "ESP-CHACHA20-POLY1305": {
+    iv: 8,
+    blockSize: 4,
+    aead: true,
+    icvLengths: [16],
+    rfc: "RFC 7634",
+  },
+  "ESP-NULL": {
+    iv: 0,
+    blockSize: 4,
+    aead: false,
+    icvLengths: [],
+    rfc: "RFC 2410",
+  },
+};
+
+export const espIntegritySpecs: {
+  [name in Exclude<EspHmac, "None">]: IntegritySpec;
+} = {
+  "ESP-MD5-HMAC": { icv: 12, iv: 0, authOnly: false, rfc: "RFC 2403" },
+  "ESP-SHA-HMAC": { icv: 12, iv: 0, authOnly: false, rfc: "RFC 2404" },
+  "ESP-SHA-256": { icv: 16, iv: 0, authOnly: false, rfc: "RFC 4868" },
+  "ESP-SHA-256-96": {
+    icv: 12,
+    iv: 0,
+    authOnly: false,
+    rfc: "draft-ietf-ipsec-ciph-sha-256-00",
+  },
+  "ESP-SHA-384": { icv: 24, iv: 0, authOnly: false, rfc: "RFC 4868" },
+  "ESP-SHA-512": { icv: 32, iv: 0, authOnly: false, rfc: "RFC 4868" },
+  "ESP-AES-XCBC-MAC": { icv: 12, iv: 0, authOnly: false, rfc: "RFC 3566" },
+  "ESP-AES-CMAC": { icv: 12, iv: 0, authOnly: false, rfc: "RFC 4494" },
+  "ESP-GMAC-128/192/256": { icv: 16, iv: 8, authOnly: true, rfc: "RFC 4543" },
+};
+
+export const ahIntegritySpecs: {
+  [name in Exclude<AhHmac, "None">]: IntegritySpec;
+} = {
+  "AH-MD5-HMAC": { icv: 12, iv: 0, authOnly: false, rfc: "RFC 2403" },
+  "AH-SHA-HMAC": { icv: 12, iv: 0, authOnly: false, rfc: "RFC 2404" },
+  "AH-SHA-256": { icv: 16, iv: 0, authOnly: false, rfc: "RFC 4868" },
+  "AH-SHA-384": { icv: 24, iv: 0, authOnly: false, rfc: "RFC 4868" },
+  "AH-SHA-512": { icv: 32, iv: 0, authOnly: false, rfc: "RFC 4868" },
+  "AH-GMAC-128/192/256": { icv: 16, iv: 8, authOnly: false, rfc: "RFC 4543" },
+};
+
+/** Returns the spec of an ESP encryption algorithm, or `null` for "None". */
+export function espEncryptionSpecOf(name: EspEncryption) {
+  return name === "None" ? null : espEncryptionSpecs[name];
+}
+
+/** Returns the spec of an ESP integrity algorithm, or `null` for "None". */
+export function espIntegritySpecOf(name: EspHmac) {
+  return name === "None" ? null : espIntegritySpecs[name];
+}
+
+/** Returns the spec of an AH integrity algorithm, or `null` for "None". */
+export function ahIntegritySpecOf(name: AhHmac) {
+  return name === "None" ? null : ahIntegritySpecs[name];
+}
+
+/**
+ * Returns the ICV size of a combined mode cipher, 0 for other ciphers.
+ * `validateForm` checks that the cipher supports the selected length.
+ */
+export function aeadIcvLengthOf({
+  espEncr,
+  icvLength,
+}: {
+  espEncr: EspEncryption;
+  icvLength: number;
+}) {
+  const spec = espEncryptionSpecOf(espEncr);
+  return spec && spec.icvLengths.length > 0 ? icvLength : 0;
+}
+
+/**
+ * Returns the ICV length to keep when `espEncr` is selected: `icvLength` if
+ * the cipher supports it, otherwise the cipher's default.
+ */
+export function icvLengthFor(espEncr: EspEncryption, icvLength: number) {
+  const icvLengths = espEncryptionSpecOf(espEncr)?.icvLengths ?? [];
+  return icvLengths.length === 0 || icvLengths.includes(icvLength)
+    ? icvLength
+    : icvLengths[0];
+}
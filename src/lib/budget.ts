@@ -0,0 +1,202 @@
+import { calculatePacket } from "./calculate";
+import { minPacketSizeOf } from "./inner";
+import { IFormState } from "./types";
+import { validateForm } from "./validate";
+
+/** One packet size of a traffic profile. */
+export interface TrafficClass {
+  name: string;
+  // Inner IP packet size
+  packetSize: number;
+  // Packets per second, or a relative weight (see `TrafficProfile`)
+  rate: number;
+}
+
+/** Mix of packet sizes sent over the link. */
+export interface TrafficProfile {
+  name: string;
+  // When set, rates are packets per second. Otherwise they are relative
+  // weights and the mix is scaled up until it fills the link.
+  fixedRates: boolean;
+  classes: TrafficClass[];
+}
+
+/** Bandwidth of one traffic class. */
+export interface BudgetClassResult {
+  trafficClass: TrafficClass;
+  // Size of the encrypted packet (layer 3)
+  totalSize: number;
+  // Size of the encrypted packet with its link-layer framing
+  wireSize: number;
+  packetsPerSecond: number;
+  // Inner packet bits per second
+  goodputBps: number;
+  // Application data bits per second, behind the inner headers
+  applicationBps: number;
+  // Encrypted packet bits per second (layer 3)
+  encryptedBps: number;
+  // Bits per second on the wire, link-layer framing included
+  onWireBps: number;
+}
+
+/** Bandwidth of a traffic profile over an IPsec link. */
+export interface BudgetResult {
+  classes: BudgetClassResult[];
+  packetsPerSecond: number;
+  goodputBps: number;
+  applicationBps: number;
+  encryptedBps: number;
+  onWireBps: number;
+  // Bits per second added by IPsec, overlays and link-layer framing
+  overheadBps: number;
+  // Share of the link rate used on the wire, in percent
+  utilisation: number;
+  // Share of the link rate used by the overhead alone, in percent
+  overheadUtilisation: number;
+}
+
+/** Voice payload sizes include 12 bytes RTP, 8 bytes UDP and 20 bytes IPv4. */
+export const trafficProfiles: TrafficProfile[] = [
+  {
+    name: "Single Size",
+    fixedRates: false,
+    classes: [{ name: "Packets", packetSize: 1400, rate: 1 }],
+  },
+  {
+    name: "Simple IMIX (7:4:1)",
+    fixedRates: false,
+    classes: [
+      { name: "Small", packetSize: 40, rate: 7 },
+      { name: "Medium", packetSize: 576, rate: 4 },
+      { name: "Large", packetSize: 1500, rate: 1 },
+    ],
+  },
+  {
+    name: "VoIP G.711 (20 ms, 10 calls)",
+    fixedRates: true,
+    classes: [{ name: "G.711 RTP", packetSize: 200, rate: 500 }],
+  },
+  {
+    name: "VoIP G.729 (20 ms, 10 calls)",
+    fixedRates: true,
+    classes: [{ name: "G.729 RTP", packetSize: 60, rate: 500 }],
+  },
+];
+
+/**
+ * Copies a preset profile for the form. A single size profile with weights
+ * is seeded with the form's packet size, and sizes the form's inner headers
+ * do not fit in are raised to its smallest packet.
+ */
+export function copyProfile(
+  profile: TrafficProfile,
+  form: IFormState
+): TrafficProfile {
+  const minSize = minPacketSizeOf(form.innerProtocol, form.inner);
+  return {
+    ...profile,
+    classes: profile.classes.map((trafficClass) => ({
+      ...trafficClass,
+      packetSize:
+        profile.classes.length === 1 && !profile.fixedRates
+          ? form.packetSize
+          : Math.max(trafficClass.packetSize, minSize),
+    })),
+  };
+}
+
+/**
+ * Checks a traffic profile and link rate for the given form.
+ * Returns an error message, or an empty string when they are valid.
+ */
+export function validateBudget(
+  form: IFormState,
+  profile: TrafficProfile,
+  linkRateBps: number
+) {
+  if (!(linkRateBps > 0)) {
+    return "Please enter a link rate greater than 0";
+  }
+  if (profile.classes.length === 0) {
+    return "Please add at least one packet size to the traffic profile";
+  }
+  for (const trafficClass of profile.classes) {
+    const error = validateForm({
+      ...form,
+      packetSize: trafficClass.packetSize,
+    });
+    if (error) {
+      return `${trafficClass.name}: ${error}`;
+    }
+    if (!(trafficClass.rate >= 0)) {
+      return `${trafficClass.name}: Please enter a rate of at least 0`;
+    }
+  }
+  if (profile.classes.every((trafficClass) => trafficClass.rate === 0)) {
+    return "At least one packet size needs a rate greater than 0";
+  }
+  return "";
+}
+
+/**
+ * Calculates the bandwidth a traffic profile needs over the link.
+ * The inputs are expected to pass `validateBudget`.
+ */
+export function calculateBudget(
+  form: IFormState,
+  profile: TrafficProfile,
+  linkRateBps: number
+): BudgetResult {
+  const packets = profile.classes.map((trafficClass) =>
+    calculatePacket({ ...form, packetSize: trafficClass.packetSize })
+  );
+  const wireSizes = packets.map((packet) => packet.wireSize);
+
+  // Weighted mixes are scaled so the traffic on the wire fills the link
+  let scale = 1;
+  if (!profile.fixedRates) {
+    const bitsPerWeight = profile.classes.reduce(
+      (sum, trafficClass, index) =>
+        sum + trafficClass.rate * wireSizes[index] * 8,
+      0
+    );
+    scale = linkRateBps / bitsPerWeight;
+  }
+
+  const classes = profile.classes.map((trafficClass, index) => {
+    const packetsPerSecond = trafficClass.rate * scale;
+    return {
+      trafficClass,
+      totalSize: packets[index].totalSize,
+      wireSize: wireSizes[index],
+      packetsPerSecond,
+      goodputBps: packetsPerSecond * trafficClass.packetSize * 8,
+      applicationBps: packetsPerSecond * packets[index].payloadSize * 8,
+      encryptedBps: packetsPerSecond * packets[index].totalSize * 8,
+      onWireBps: packetsPerSecond * wireSizes[index] * 8,
+    };
+  });
+  const sum = (
+    key:
+      | "packetsPerSecond"
+      | "goodputBps"
+      | "applicationBps"
+      | "encryptedBps"
+      | "onWireBps"
+  ) => classes.reduce((total, result) => total + result[key], 0);
+
+  const goodputBps = sum("goodputBps");
+  const onWireBps = sum("onWireBps");
+  const overheadBps = onWireBps - goodputBps;
+  return {
+    classes,
+    packetsPerSecond: sum("packetsPerSecond"),
+    goodputBps,
+    applicationBps: sum("applicationBps"),
+    encryptedBps: sum("encryptedBps"),
+    onWireBps,
+    overheadBps,
+    utilisation: (onWireBps / linkRateBps) * 100,
+    overheadUtilisation: (overheadBps / linkRateBps) * 100,
+  };
+}
@@ -0,0 +1,313 @@
+import {
+  aeadIcvLengthOf,
+  ahIntegritySpecOf,
+  espEncryptionSpecOf,
+  espIntegritySpecOf,
+} from "./algorithms";
+import {
+  defaultFormValues,
+  ipHeaderSizeOf,
+  sumBytes,
+  TCP_HDR_SIZE,
+  UDP_HDR_SIZE,
+} from "./constants";
+import { buildFraming } from "./framing";
+import { buildInnerHeaders, buildInnerPacket, splitOuterHeader } from "./inner";
+import { buildOverlayHeader } from "./overlay";
+import { calculateEspPadding, EspPadding } from "./padding";
+import { stackFromForm } from "./stack";
+import {
+  AhStackLayer,
+  EncapsulationStack,
+  EspStackLayer,
+  IFormState,
+  InnerSettings,
+  IPVersion,
+  PacketDetail,
+  PacketLayer,
+  PacketResult,
+} from "./types";
+
+/**
+ * Returns the AH fields, aligned for an outer header of the given family.
+ * `suffix` tells nested AH layers apart.
+ */
+function buildAh(layer: AhStackLayer, outer: IPVersion, suffix: string) {
+  const ahInte = ahIntegritySpecOf(layer.ahInte);
+  const fields: PacketDetail[] = [
+    { text: "Next Header", bytes: 1, group: `AH Header${suffix}` },
+    { text: "Payload", bytes: 1, group: `AH Header${suffix}` },
+    { text: "Reserved", bytes: 2, group: `AH Header${suffix}` },
+    { text: "SPI", bytes: 4, group: `AH Header${suffix}` },
+    { text: "Sequence", bytes: 4, group: `AH Header${suffix}` },
+  ];
+  if (!ahInte) {
+    return fields;
+  }
+  if (ahInte.iv > 0) {
+    fields.push({
+      bytes: ahInte.iv,
+      text: `AH IV${suffix}`,
+    });
+  }
+  fields.push({
+    bytes: ahInte.icv,
+    text: `AH Digest${suffix}`,
+  });
+  // AH must be a multiple of 4 bytes in IPv4 and 8 bytes in IPv6
+  const ahSize = 12 + ahInte.iv + ahInte.icv;
+  const ahAlignment = outer === "IPv4" ? 4 : 8;
+  if (ahSize % ahAlignment !== 0) {
+    fields.push({
+      bytes: ahAlignment - (ahSize % ahAlignment),
+      text: `AH Padding${suffix}`,
+    });
+  }
+  return fields;
+}
+
+/**
+ * Wraps `payload` (everything behind the outermost IP header) in ESP.
+ * `suffix` tells nested ESP layers apart.
+ */
+function buildEsp(
+  layer: EspStackLayer,
+  payload: PacketDetail[],
+  suffix: string
+) {
+  const espEncr = espEncryptionSpecOf(layer.espEncr);
+  const espInte = espIntegritySpecOf(layer.espInte);
+  const fields: PacketDetail[] = [
+    {
+      text: "SPI",
+      bytes: 4,
+      group: `ESP Header${suffix}`,
+    },
+    {
+      text: "Sequence",
+      bytes: 4,
+      group: `ESP Header${suffix}`,
+    },
+  ];
+  // ESP-GMAC carries its IV like an encryption algorithm does
+  const iv = espEncr ? espEncr.iv : espInte?.iv ?? 0;
+  if (iv > 0) {
+    fields.push({
+      bytes: iv,
+      text: `ESP IV${suffix}`,
+    });
+  }
+  fields.push(...payload);
+  const padding = calculateEspPadding(
+    layer.padding,
+    sumBytes(payload),
+    espEncr ? espEncr.blockSize : 4
+  );
+  if (padding.tfc > 0) {
+    fields.push({
+      bytes: padding.tfc,
+      text: `TFC Padding${suffix}`,
+    });
+  }
+  fields.push(
+    {
+      bytes: padding.pad,
+      group: `ESP Trailer${suffix}`,
+      text: "ESP Pad",
+    },
+    {
+      text: "Pad Length",
+      bytes: 1,
+      group: `ESP Trailer${suffix}`,
+    },
+    {
+      text: "Next Header",
+      bytes: 1,
+      group: `ESP Trailer${suffix}`,
+    }
+  );
+
+  const icv = espEncr?.aead ? aeadIcvLengthOf(layer) : espInte?.icv ?? 0;
+  if (icv > 0) {
+    fields.push({
+      bytes: icv,
+      group: `ESP Trailer${suffix}`,
+      text: "ESP ICV",
+    });
+  }
+  return { fields, padding };
+}
+
+/**
+ * Builds the list of fields of the encrypted packet, outermost first, by
+ * applying each layer of the stack to the inner packet in turn.
+ */
+function buildPacketDetails(
+  packetSize: number,
+  innerProtocol: IPVersion,
+  stack: EncapsulationStack,
+  inner: InnerSettings
+) {
+  let packetDetails = buildInnerPacket(packetSize, innerProtocol, inner);
+  // Family of the IP header at the front of the packet
+  let outer = innerProtocol;
+  const padding: EspPadding[] = [];
+  // Nested IPsec layers are numbered from the inside, starting with the second
+  let ahLayers = 0;
+  const layerSuffix = (count: number) => (count > 1 ? ` (${count})` : "");
+
+  for (const layer of stack.layers) {
+    // ESP, AH, NAT-T and ESP-in-TCP go right behind the outermost IP header
+    const [outerHeader, rest] = splitOuterHeader(packetDetails);
+    switch (layer.kind) {
+      case "IP":
+        packetDetails = [
+          {
+            bytes: ipHeaderSizeOf(layer.ipProtocol),
+            text: `New ${layer.ipProtocol} Header for ${layer.purpose}`,
+          },
+          ...packetDetails,
+        ];
+        outer = layer.ipProtocol;
+        break;
+      case "Overlay":
+        packetDetails = [
+          ...buildOverlayHeader(layer.overlay),
+          ...packetDetails,
+        ];
+        break;
+      case "NAT-T":
+        packetDetails = [
+          ...outerHeader,
+          { bytes: UDP_HDR_SIZE, text: "UDP Header (NAT-T)" },
+          ...rest,
+        ];
+        break;
+      case "ESP-in-TCP":
+        // Assumes one ESP message per TCP segment
+        packetDetails = [
+          ...outerHeader,
+          { bytes: TCP_HDR_SIZE, text: "TCP Header", group: "ESP-in-TCP" },
+          { bytes: 2, text: "Length", group: "ESP-in-TCP" },
+          ...rest,
+        ];
+        break;
+      case "AH":
+        ahLayers++;
+        packetDetails = [
+          ...outerHeader,
+          ...buildAh(layer, outer, layerSuffix(ahLayers)),
+          ...rest,
+        ];
+        break;
+      case "ESP": {
+        const esp = buildEsp(layer, rest, layerSuffix(padding.length + 1));
+        packetDetails = [...outerHeader, ...esp.fields];
+        padding.push(esp.padding);
+        break;
+      }
+    }
+  }
+  return { packetDetails, padding };
+}
+
+/**
+ * Merges fields that share a group into a single layer.
+ * Ungrouped fields become a layer of their own.
+ */
+export function groupLayers(packetDetails: PacketDetail[]) {
+  const layers: PacketLayer[] = [];
+  for (const packetDetail of packetDetails) {
+    if (packetDetail.group) {
+      const layer = layers.find((v) => v.label === packetDetail.group);
+      if (!layer) {
+        layers.push({
+          details: [packetDetail],
+          label: packetDetail.group,
+          size: packetDetail.bytes,
+        });
+      } else {
+        layer.size += packetDetail.bytes;
+        layer.details.push(packetDetail);
+      }
+    } else {
+      layers.push({
+        details: [],
+        label: packetDetail.text,
+        size: packetDetail.bytes,
+      });
+    }
+  }
+  return layers;
+}
+
+/**
+ * Totals a packet given as all of its fields, link-layer framing included.
+ * The overhead is measured against the inner packet of `packetSize` bytes.
+ */
+export function summarizePacket(
+  fields: PacketDetail[],
+  packetSize: number,
+  innerProtocol: IPVersion,
+  inner: InnerSettings,
+  padding: EspPadding[]
+): PacketResult {
+  const totalSize = sumBytes(fields.filter((field) => !field.framing));
+  const wireSize = sumBytes(fields);
+  const overhead = totalSize - packetSize;
+  const payloadSize =
+    packetSize - sumBytes(buildInnerHeaders(innerProtocol, inner));
+  return {
+    fields,
+    layers: groupLayers(fields),
+    totalSize,
+    wireSize,
+    overhead,
+    overheadPercent: packetSize > 0 ? (overhead / packetSize) * 100 : 0,
+    padding,
+    payloadSize,
+    efficiency: wireSize > 0 ? (payloadSize / wireSize) * 100 : 0,
+  };
+}
+
+/**
+ * Calculates the packet produced by an encapsulation stack.
+ * The stack is expected to pass `validateStack`.
+ */
+export function calculateStack(
+  packetSize: number,
+  innerProtocol: IPVersion,
+  stack: EncapsulationStack,
+  inner: InnerSettings = defaultFormValues.inner
+): PacketResult {
+  const { packetDetails: packet, padding } = buildPacketDetails(
+    packetSize,
+    innerProtocol,
+    stack,
+    inner
+  );
+  const framing = buildFraming(stack.underlay, sumBytes(packet));
+  return summarizePacket(
+    [...framing.header, ...packet, ...framing.trailer],
+    packetSize,
+    innerProtocol,
+    inner,
+    padding
+  );
+}
+
+/**
+ * Calculates the encrypted packet for the given form.
+ * The form is expected to pass `validateForm`.
+ */
+export function calculatePacket(form: IFormState): PacketResult {
+  return calculateStack(
+    form.packetSize,
+    form.innerProtocol,
+    {
+      layers: stackFromForm(form),
+      underlay: form.underlay,
+    },
+    form.inner
+  );
+}
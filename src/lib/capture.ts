@@ -0,0 +1,682 @@
+import {
+  aeadIcvLengthOf,
+  ahIntegritySpecOf,
+  espEncryptionSpecOf,
+  espIntegritySpecOf,
+} from "./algorithms";
+import { calculatePacket } from "./calculate";
+import {
+  cloneForm,
+  ipFamiliesOf,
+  ipHeaderSizeOf,
+  MAX_PACKET_SIZE,
+  sumBytes,
+  UDP_HDR_SIZE,
+} from "./constants";
+import { setOuterFamily } from "./importer";
+import { minPacketSizeOf } from "./inner";
+import { buildOverlayHeader } from "./overlay";
+import { espAlignmentOf } from "./padding";
+import { IFormState, IPVersion } from "./types";
+import { validateForm } from "./validate";
+
+export type CaptureProtocol = "ESP" | "ESP in UDP" | "AH" | "GRE";
+
+/** IPsec or GRE packet found in a capture. */
+export interface CapturedPacket {
+  protocol: CaptureProtocol;
+  family: IPVersion;
+  source: string;
+  destination: string;
+  // ESP or AH SPI, or the GRE key (0 without a key)
+  spi: number;
+  // Size of the IP packet from the outer IP header on
+  ipSize: number;
+  // ESP from the SPI to the ICV, also when carried behind AH; 0 without ESP
+  espSize: number;
+  // ICV length given by the AH header; 0 without AH
+  ahIcvLength: number;
+  // GRE header flags and size, for GRE packets
+  gre?: { checksum: boolean; key: boolean; sequence: boolean; size: number };
+}
+
+/** Packets of one direction of one security association or GRE tunnel. */
+export interface CaptureFlow {
+  protocol: CaptureProtocol;
+  family: IPVersion;
+  natTraversal: boolean;
+  source: string;
+  destination: string;
+  spi: number;
+  packets: number;
+  // Observed IP packet sizes and how often each was seen, smallest first
+  sizes: { size: number; count: number }[];
+  // Cipher block size the ESP sizes are aligned to, null when it can not
+  // be told from the sizes
+  blockSize: number | null;
+  // ICV lengths that fit the ESP sizes, assuming the IV is one block (CBC)
+  // or 8 bytes (4 byte alignment, combined mode ciphers)
+  icvLengths: number[];
+  // ICV length given by the AH header; 0 without AH
+  ahIcvLength: number;
+  gre?: CapturedPacket["gre"];
+}
+
+/** Result of reading a capture file. */
+export interface CaptureResult {
+  format: "pcap" | "pcapng" | null;
+  flows: CaptureFlow[];
+  // Packets that were skipped, or why the file could not be read
+  messages: string[];
+}
+
+/** Observed size of a flow checked against the form. */
+export interface SizeComparison {
+  size: number;
+  count: number;
+  // Inner packet sizes the form turns into this size, null when none does
+  innerSizes: { min: number; max: number } | null;
+  // The closest sizes the form predicts when it does not match. For GRE
+  // flows the size of the GRE packet the form builds around the inner packet.
+  predicted: number[];
+  match: boolean;
+  // For GRE flows, the size the form encrypts the GRE packet to, null when
+  // the form can not encrypt it
+  encryptedSize?: number | null;
+}
+
+/** Flow of a capture checked against the form. */
+export interface FlowComparison {
+  sizes: SizeComparison[];
+  // Settings of the form that contradict the capture
+  mismatches: string[];
+}
+
+const ETHERTYPE_IPV4 = 0x0800;
+const ETHERTYPE_IPV6 = 0x86dd;
+const NAT_T_PORT = 4500;
+const IKE_PORT = 500;
+/** ICV lengths in use by ESP and AH integrity algorithms. */
+const icvCandidates = [8, 12, 16, 24, 32];
+
+/** Frame of a capture with the link type of its interface. */
+interface Frame {
+  linkType: number;
+  data: DataView;
+}
+
+/** Tallies of packets that were not used, reported as messages. */
+interface SkipCounts {
+  [reason: string]: number;
+}
+
+const skip = (counts: SkipCounts, reason: string) => {
+  counts[reason] = (counts[reason] ?? 0) + 1;
+};
+
+const gcd = (a: number, b: number): number => (b === 0 ? a : gcd(b, a % b));
+
+function formatAddress(data: DataView, offset: number, family: IPVersion) {
+  if (family === "IPv4") {
+    return Array.from({ length: 4 }, (_, i) => data.getUint8(offset + i)).join(
+      "."
+    );
+  }
+  const groups = Array.from({ length: 8 }, (_, i) =>
+    data.getUint16(offset + i * 2).toString(16)
+  );
+  // Shorten the longest run of zero groups to "::"
+  let best = { start: -1, length: 1 };
+  for (let start = 0; start < 8; start++) {
+    let length = 0;
+    while (start + length < 8 && groups[start + length] === "0") {
+      length++;
+    }
+    if (length > best.length) {
+      best = { start, length };
+    }
+  }
+  if (best.start < 0) {
+    return groups.join(":");
+  }
+  const head = groups.slice(0, best.start).join(":");
+  const tail = groups.slice(best.start + best.length).join(":");
+  return `${head}::${tail}`;
+}
+
+/** Reads the frames of a classic pcap file. */
+function readPcap(buffer: ArrayBuffer, frames: Frame[]) {
+  const view = new DataView(buffer);
+  const magic = view.getUint32(0, true);
+  const little = magic === 0xa1b2c3d4 || magic === 0xa1b23c4d;
+  const linkType = view.getUint32(20, little) & 0xffff;
+  let offset = 24;
+  while (offset + 16 <= buffer.byteLength) {
+    const captured = view.getUint32(offset + 8, little);
+    const start = offset + 16;
+    if (start + captured > buffer.byteLength) {
+      return "The capture ends in the middle of a packet.";
+    }
+    frames.push({ linkType, data: new DataView(buffer, start, captured) });
+    offset = start + captured;
+  }
+  return "";
+}
+
+/** Reads the frames of a pcapng file. */
+function readPcapng(buffer: ArrayBuffer, frames: Frame[]) {
+  const view = new DataView(buffer);
+  let little = true;
+  let linkTypes: number[] = [];
+  let offset = 0;
+  while (offset + 12 <= buffer.byteLength) {
+    const type = view.getUint32(offset, little);
+    if (type === 0x0a0d0d0a) {
+      // Each section has its own byte order and interfaces
+      little = view.getUint32(offset + 8, true) === 0x1a2b3c4d;
+      linkTypes = [];
+    }
+    const length = view.getUint32(offset + 4, little);
+    if (length < 12 || offset + length > buffer.byteLength) {
+      return "The capture ends in the middle of a block.";
+    }
+    if (type === 1) {
+      linkTypes.push(view.getUint16(offset + 8, little));
+    } else if (type === 6 || type === 2) {
+      // Enhanced packet block, or the obsolete packet block: 28 bytes of
+      // block header in front of the data, 4 of length behind
+      if (length < 32) {
+        return "The capture ends in the middle of a block.";
+      }
+      const iface =
+        type === 6
+          ? view.getUint32(offset + 8, little)
+          : view.getUint16(offset + 8, little);
+      const captured = view.getUint32(offset + 20, little);
+      if (captured > length - 32) {
+        return "The capture ends in the middle of a block.";
+      }
+      frames.push({
+        linkType: linkTypes[iface] ?? -1,
+        data: new DataView(buffer, offset + 28, captured),
+      });
+    } else if (type === 3) {
+      // Simple packet block, always from the first interface
+      if (length < 16) {
+        return "The capture ends in the middle of a block.";
+      }
+      const original = view.getUint32(offset + 8, little);
+      frames.push({
+        linkType: linkTypes[0] ?? -1,
+        data: new DataView(
+          buffer,
+          offset + 12,
+          Math.min(original, length - 16)
+        ),
+      });
+    }
+    offset += length;
+  }
+  return "";
+}
+
+/**
+ * Returns the offset and EtherType of the network layer of a frame, or null
+ * for link types that are not supported.
+ */
+function networkLayerOf(frame: Frame): [number, number] | null {
+  const { data } = frame;
+  switch (frame.linkType) {
+    case 0: {
+      // BSD loopback: address family in the capturing host's byte order
+      const family = data.getUint32(0, true) || data.getUint32(0, false);
+      const ipv6 = [24, 28, 30].includes(family) || family >= 0x18000000;
+      return [4, ipv6 ? ETHERTYPE_IPV6 : ETHERTYPE_IPV4];
+    }
+    case 1: {
+      let offset = 12;
+      let etherType = data.getUint16(offset);
+      // 802.1Q and 802.1ad tags
+      while (etherType === 0x8100 || etherType === 0x88a8) {
+        offset += 4;
+        etherType = data.getUint16(offset);
+      }
+      offset += 2;
+      if (etherType === 0x8864) {
+        // PPPoE session header and PPP protocol
+        const ppp = data.getUint16(offset + 6);
+        return [
+          offset + 8,
+          ppp === 0x0057 ? ETHERTYPE_IPV6 : ppp === 0x0021 ? ETHERTYPE_IPV4 : 0,
+        ];
+      }
+      if (etherType === 0x8847) {
+        // MPLS label stack, up to the bottom of stack bit
+        while (!(data.getUint8(offset + 2) & 0x01)) {
+          offset += 4;
+        }
+        offset += 4;
+        const version = data.getUint8(offset) >> 4;
+        return [
+          offset,
+          version === 6 ? ETHERTYPE_IPV6 : version === 4 ? ETHERTYPE_IPV4 : 0,
+        ];
+      }
+      return [offset, etherType];
+    }
+    case 12:
+    case 101:
+    case 228:
+    case 229: {
+      // Raw IP
+      const version = data.getUint8(0) >> 4;
+      return [0, version === 6 ? ETHERTYPE_IPV6 : ETHERTYPE_IPV4];
+    }
+    case 113:
+      return [16, data.getUint16(14)];
+    case 276:
+      return [20, data.getUint16(0)];
+  }
+  return null;
+}
+
+/** Decodes the IPsec or GRE packet in a frame, or returns why it was skipped. */
+function decodeFrame(frame: Frame): CapturedPacket | string {
+  const network = networkLayerOf(frame);
+  if (!network) {
+    return `link type ${frame.linkType}`;
+  }
+  const [start, etherType] = network;
+  const data = frame.data;
+  let family: IPVersion;
+  let protocol: number;
+  let payload: number;
+  let ipSize: number;
+  let source: string;
+  let destination: string;
+
+  if (etherType === ETHERTYPE_IPV4) {
+    family = "IPv4";
+    const fragment = data.getUint16(start + 6);
+    if (fragment & 0x3fff) {
+      return "IP fragments";
+    }
+    protocol = data.getUint8(start + 9);
+    payload = start + (data.getUint8(start) & 0x0f) * 4;
+    ipSize = data.getUint16(start + 2);
+    source = formatAddress(data, start + 12, family);
+    destination = formatAddress(data, start + 16, family);
+  } else if (etherType === ETHERTYPE_IPV6) {
+    family = "IPv6";
+    protocol = data.getUint8(start + 6);
+    payload = start + 40;
+    ipSize = 40 + data.getUint16(start + 4);
+    source = formatAddress(data, start + 8, family);
+    destination = formatAddress(data, start + 24, family);
+    // Hop-by-hop, routing and destination options headers
+    while ([0, 43, 60].includes(protocol)) {
+      protocol = data.getUint8(payload);
+      payload += (data.getUint8(payload + 1) + 1) * 8;
+    }
+    if (protocol === 44) {
+      return "IP fragments";
+    }
+  } else {
+    return "non-IP frames";
+  }
+  // Size from the IPsec or GRE header to the end of the IP packet
+  const remaining = ipSize - (payload - start);
+  const packet = {
+    family,
+    source,
+    destination,
+    ipSize,
+    spi: 0,
+    espSize: 0,
+    ahIcvLength: 0,
+  };
+
+  switch (protocol) {
+    case 50:
+      return {
+        ...packet,
+        protocol: "ESP",
+        spi: data.getUint32(payload),
+        espSize: remaining,
+      };
+    case 51: {
+      const ahSize = (data.getUint8(payload + 1) + 2) * 4;
+      return {
+        ...packet,
+        protocol: "AH",
+        spi: data.getUint32(payload + 4),
+        espSize: data.getUint8(payload) === 50 ? remaining - ahSize : 0,
+        ahIcvLength: ahSize - 12,
+      };
+    }
+    case 17: {
+      const ports = [data.getUint16(payload), data.getUint16(payload + 2)];
+      if (!ports.includes(NAT_T_PORT)) {
+        return ports.includes(IKE_PORT) ? "IKE packets" : "other UDP packets";
+      }
+      if (remaining - UDP_HDR_SIZE <= 1) {
+        return "NAT-T keepalives";
+      }
+      // IKE behind the non-ESP marker
+      const spi = data.getUint32(payload + UDP_HDR_SIZE);
+      if (spi === 0) {
+        return "IKE packets";
+      }
+      return {
+        ...packet,
+        protocol: "ESP in UDP",
+        spi,
+        espSize: remaining - UDP_HDR_SIZE,
+      };
+    }
+    case 47: {
+      const flags = data.getUint8(payload);
+      if ((data.getUint8(payload + 1) & 0x07) !== 0) {
+        return "PPTP enhanced GRE packets";
+      }
+      const gre = {
+        checksum: (flags & 0x80) !== 0,
+        key: (flags & 0x20) !== 0,
+        sequence: (flags & 0x10) !== 0,
+        size: 4,
+      };
+      gre.size +=
+        [gre.checksum, gre.key, gre.sequence].filter(Boolean).length * 4;
+      const keyOffset = payload + (gre.checksum ? 8 : 4);
+      return {
+        ...packet,
+        protocol: "GRE",
+        spi: gre.key ? data.getUint32(keyOffset) : 0,
+        gre,
+      };
+    }
+  }
+  return "packets of other protocols";
+}
+
+/** Infers the cipher block size and ICV lengths from the ESP sizes. */
+function inferAlignment(espSizes: number[]) {
+  if (espSizes.length < 2) {
+    return { blockSize: null, icvLengths: [] };
+  }
+  const step = espSizes
+    .slice(1)
+    .reduce((result, size) => gcd(result, size - espSizes[0]), 0);
+  const blockSize = [16, 8, 4].find((size) => step % size === 0) ?? null;
+  if (blockSize === null) {
+    return { blockSize, icvLengths: [] };
+  }
+  // SPI and sequence number, IV and ICV are outside the padded part
+  const iv = blockSize === 4 ? 8 : blockSize;
+  const icvLengths =
+    blockSize === 4
+      ? []
+      : icvCandidates.filter(
+          (icv) => (espSizes[0] - 8 - iv - icv) % blockSize === 0
+        );
+  return { blockSize, icvLengths };
+}
+
+/**
+ * Reads a pcap or pcapng capture and groups its ESP, AH, ESP in UDP and GRE
+ * packets into flows. IP fragments, IKE and other packets are skipped.
+ */
+export function parseCapture(buffer: ArrayBuffer): CaptureResult {
+  const frames: Frame[] = [];
+  const magic =
+    buffer.byteLength >= 24 ? new DataView(buffer).getUint32(0, true) : 0;
+  let format: CaptureResult["format"] = null;
+  let error = "";
+  if ([0xa1b2c3d4, 0xd4c3b2a1, 0xa1b23c4d, 0x4d3cb2a1].includes(magic)) {
+    format = "pcap";
+    error = readPcap(buffer, frames);
+  } else if (magic === 0x0a0d0d0a) {
+    format = "pcapng";
+    error = readPcapng(buffer, frames);
+  } else {
+    return {
+      format,
+      flows: [],
+      messages: ["The file is not a pcap or pcapng capture."],
+    };
+  }
+
+  const flows = new Map<string, CaptureFlow & { espSizes: Set<number> }>();
+  const skipped: SkipCounts = {};
+  for (const frame of frames) {
+    let packet: CapturedPacket | string;
+    try {
+      packet = decodeFrame(frame);
+    } catch {
+      // DataView throws on frames cut short by the snapshot length
+      packet = "truncated frames";
+    }
+    if (typeof packet === "string") {
+      skip(skipped, packet);
+      continue;
+    }
+    const key = [
+      packet.protocol,
+      packet.source,
+      packet.destination,
+      packet.spi,
+    ].join(" ");
+    let flow = flows.get(key);
+    if (!flow) {
+      flow = {
+        protocol: packet.protocol,
+        family: packet.family,
+        natTraversal: packet.protocol === "ESP in UDP",
+        source: packet.source,
+        destination: packet.destination,
+        spi: packet.spi,
+        packets: 0,
+        sizes: [],
+        blockSize: null,
+        icvLengths: [],
+        ahIcvLength: packet.ahIcvLength,
+        gre: packet.gre,
+        espSizes: new Set(),
+      };
+      flows.set(key, flow);
+    }
+    flow.packets++;
+    const seen = flow.sizes.find(({ size }) => size === packet.ipSize);
+    if (seen) {
+      seen.count++;
+    } else {
+      flow.sizes.push({ size: packet.ipSize, count: 1 });
+    }
+    if (packet.espSize > 0) {
+      flow.espSizes.add(packet.espSize);
+    }
+  }
+
+  const messages = error ? [error] : [];
+  for (const [reason, count] of Object.entries(skipped)) {
+    messages.push(`Skipped ${count} ${reason}.`);
+  }
+  return {
+    format,
+    flows: Array.from(flows.values()).map(({ espSizes, ...flow }) => ({
+      ...flow,
+      ...inferAlignment(Array.from(espSizes).sort((a, b) => a - b)),
+      sizes: flow.sizes.sort((a, b) => a.size - b.size),
+    })),
+    messages,
+  };
+}
+
+/** Returns a copy of `base` with the outer family and NAT-T of a flow. */
+export function formFromFlow(flow: CaptureFlow, base: IFormState) {
+  const form = cloneForm(base);
+  setOuterFamily(form, flow.family);
+  if (flow.protocol !== "GRE") {
+    form.transport.natTraver = flow.natTraversal;
+    form.transport.tcpEncap = false;
+  }
+  return form;
+}
+
+/** Returns the inner packet sizes the form encrypts to exactly `size`. */
+function innerSizesFor(form: IFormState, size: number) {
+  const totalSizeOf = (packetSize: number) =>
+    calculatePacket({ ...form, packetSize }).totalSize;
+  // The encrypted size never shrinks as the inner packet grows
+  const search = (fits: (total: number) => boolean) => {
+    let low = minPacketSizeOf(form.innerProtocol, form.inner);
+    let high = MAX_PACKET_SIZE + 1;
+    while (low < high) {
+      const middle = Math.floor((low + high) / 2);
+      if (fits(totalSizeOf(middle))) {
+        high = middle;
+      } else {
+        low = middle + 1;
+      }
+    }
+    return low;
+  };
+  const min = search((total) => total >= size);
+  const max = search((total) => total > size) - 1;
+  const smallest = minPacketSizeOf(form.innerProtocol, form.inner);
+  const nearest = [
+    ...(min > smallest ? [totalSizeOf(min - 1)] : []),
+    ...(min <= MAX_PACKET_SIZE ? [totalSizeOf(min)] : []),
+  ];
+  return {
+    innerSizes: min <= max ? { min, max } : null,
+    nearest: min <= max ? [size] : nearest,
+  };
+}
+
+/** Returns the settings of the form that contradict an IPsec flow. */
+function ipsecMismatches(flow: CaptureFlow, form: IFormState) {
+  const mismatches: string[] = [];
+  const { transform } = form;
+  if (flow.natTraversal !== form.transport.natTraver) {
+    mismatches.push(
+      flow.natTraversal
+        ? "The capture uses NAT-T, the form does not."
+        : "The form uses NAT-T, the capture does not."
+    );
+  }
+  const ah = ahIntegritySpecOf(transform.ahInte);
+  if ((flow.protocol === "AH") !== (ah !== null)) {
+    mismatches.push(
+      ah
+        ? "The form uses AH, the capture does not."
+        : "The capture uses AH, the form does not."
+    );
+  } else if (ah && flow.ahIcvLength !== ah.icv) {
+    mismatches.push(
+      `The AH ICV is ${flow.ahIcvLength} bytes, ${transform.ahInte} has ${ah.icv} bytes.`
+    );
+  }
+  const encryption = espEncryptionSpecOf(transform.espEncr);
+  const integrity = espIntegritySpecOf(transform.espInte);
+  if (flow.blockSize === null || (!encryption && !integrity)) {
+    return mismatches;
+  }
+  const alignment = espAlignmentOf(encryption?.blockSize ?? 4);
+  const icv = encryption?.aead
+    ? aeadIcvLengthOf(transform)
+    : integrity?.icv ?? 0;
+  if (flow.blockSize !== alignment) {
+    mismatches.push(
+      `ESP sizes are aligned to ${flow.blockSize} bytes, the form pads to ${alignment} bytes.`
+    );
+  }
+  if (flow.icvLengths.length > 0 && !flow.icvLengths.includes(icv)) {
+    mismatches.push(
+      `ESP sizes fit an ICV of ${flow.icvLengths.join(
+        " or "
+      )} bytes, the form uses ${icv} bytes.`
+    );
+  }
+  return mismatches;
+}
+
+/**
+ * Checks the observed sizes of a flow against `calculatePacket` for the
+ * form. The form is expected to pass `validateForm`.
+ */
+export function compareFlow(
+  flow: CaptureFlow,
+  form: IFormState
+): FlowComparison {
+  const outer = ipFamiliesOf(form).outer;
+  if (flow.protocol === "GRE" && flow.gre) {
+    const { gre } = flow;
+    const mismatches: string[] = [];
+    const settings = form.tunnelSetting;
+    if (settings.overlay !== "GRE") {
+      mismatches.push("The capture is GRE, the form does not use GRE.");
+    } else {
+      if (flow.family !== settings.deliveryProtocol) {
+        mismatches.push(
+          `The capture delivers GRE over ${flow.family}, the form over ${settings.deliveryProtocol}.`
+        );
+      }
+      for (const [name, captured, configured] of [
+        ["key", gre.key, settings.greKey],
+        ["checksum", gre.checksum, settings.greChecksum],
+        ["sequence number", gre.sequence, settings.greSequence],
+      ] as const) {
+        if (captured !== configured) {
+          mismatches.push(
+            `The captured GRE header ${
+              captured ? "has" : "has no"
+            } ${name}, the form ${configured ? "has" : "has none"}.`
+          );
+        }
+      }
+    }
+    // Delivery header and GRE header of the form
+    const greOverhead =
+      ipHeaderSizeOf(settings.deliveryProtocol) +
+      sumBytes(buildOverlayHeader(settings));
+    return {
+      mismatches,
+      sizes: flow.sizes.map(({ size, count }) => {
+        // The GRE packet carries the inner packet behind its headers
+        const packetSize = size - ipHeaderSizeOf(flow.family) - gre.size;
+        const encrypted = { ...form, packetSize };
+        const valid = settings.overlay === "GRE" && !validateForm(encrypted);
+        const predicted = greOverhead + packetSize;
+        return {
+          size,
+          count,
+          innerSizes: { min: packetSize, max: packetSize },
+          predicted: [predicted],
+          match: valid && predicted === size,
+          encryptedSize: valid ? calculatePacket(encrypted).totalSize : null,
+        };
+      }),
+    };
+  }
+
+  const mismatches = ipsecMismatches(flow, form);
+  if (flow.family !== outer) {
+    mismatches.unshift(
+      `The capture uses ${flow.family} outer headers, the form ${outer}.`
+    );
+  }
+  return {
+    mismatches,
+    sizes: flow.sizes.map(({ size, count }) => {
+      const { innerSizes, nearest } = innerSizesFor(form, size);
+      return {
+        size,
+        count,
+        innerSizes,
+        predicted: nearest,
+        match: innerSizes !== null,
+      };
+    }),
+  };
+}
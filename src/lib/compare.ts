@@ -0,0 +1,41 @@
+import { calculatePacket } from "./calculate";
+import { findMaxInnerSize } from "./mtu";
+import { IFormState, PacketResult } from "./types";
+import { validateForm } from "./validate";
+
+/** A named configuration to compare against others. */
+export interface Scenario {
+  name: string;
+  form: IFormState;
+}
+
+/** Calculation results of one scenario in a comparison. */
+export interface ScenarioComparison {
+  name: string;
+  form: IFormState;
+  // Validation error, empty when the scenario could be calculated
+  error: string;
+  result: PacketResult | null;
+  // Largest inner packet that fits in the comparison MTU
+  maxInnerSize: number | null;
+}
+
+/** Calculates every scenario against the same path MTU. */
+export function compareScenarios(
+  scenarios: Scenario[],
+  pathMtu: number
+): ScenarioComparison[] {
+  return scenarios.map(({ name, form }) => {
+    const error = validateForm(form);
+    if (error) {
+      return { name, form, error, result: null, maxInnerSize: null };
+    }
+    return {
+      name,
+      form,
+      error,
+      result: calculatePacket(form),
+      maxInnerSize: findMaxInnerSize(form, pathMtu),
+    };
+  });
+}
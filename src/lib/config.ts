@@ -0,0 +1,623 @@
+import { aeadIcvLengthOf } from "./algorithms";
+import { ipFamiliesOf } from "./constants";
+import { recommendMtu } from "./mtu";
+import {
+  AhHmac,
+  EspEncryption,
+  EspHmac,
+  IFormState,
+  IPVersion,
+  OverlayType,
+} from "./types";
+
+export type ConfigPlatform =
+  | "Cisco IOS-XE"
+  | "strongSwan swanctl.conf"
+  | "Linux ip xfrm";
+
+export const configPlatforms: ConfigPlatform[] = [
+  "Cisco IOS-XE",
+  "strongSwan swanctl.conf",
+  "Linux ip xfrm",
+];
+
+/** Configuration snippet generated for one platform. */
+export interface GeneratedConfig {
+  platform: ConfigPlatform;
+  config: string;
+  // Settings the platform can not express. They are left out of `config`,
+  // or the closest setting the platform has is used instead.
+  unsupported: string[];
+}
+
+/** Names of an algorithm on each platform, `null` when it is not supported. */
+export type AlgorithmNames<T extends string> = {
+  [name in Exclude<T, "None">]: {
+    cisco: string | null;
+    // Keyword without the key size, ICV length or truncation
+    strongswan: string | null;
+    // Kernel crypto API name and key length in bits
+    linux: { name: string; keyBits: number } | null;
+  };
+};
+
+export const espEncryptionNames: AlgorithmNames<EspEncryption> = {
+  "ESP-DES/3DES": {
+    cisco: "esp-3des",
+    strongswan: "3des",
+    linux: { name: "cbc(des3_ede)", keyBits: 192 },
+  },
+  "ESP-AES-128/192/256": {
+    cisco: "esp-aes 256",
+    strongswan: "aes256",
+    linux: { name: "cbc(aes)", keyBits: 256 },
+  },
+  "ESP-AES-CTR-128/192/256": {
+    cisco: null,
+    strongswan: "aes256ctr",
+    linux: { name: "rfc3686(ctr(aes))", keyBits: 288 },
+  },
+  "ESP-GCM-128/192/256": {
+    cisco: "esp-gcm 256",
+    strongswan: "aes256gcm",
+    linux: { name: "rfc4106(gcm(aes))", keyBits: 288 },
+  },
+  "ESP-CCM-128/192/256": {
+    cisco: null,
+    strongswan: "aes256ccm",
+    linux: { name: "rfc4309(ccm(aes))", keyBits: 280 },
+  },
+  "ESP-CHACHA20-POLY1305": {
+    cisco: null,
+    strongswan: "chacha20poly1305",
+    linux: { name: "rfc7539esp(chacha20,poly1305)", keyBits: 288 },
+  },
+  "ESP-NULL": {
+    cisco: "esp-null",
+    strongswan: "null",
+    linux: { name: "ecb(cipher_null)", keyBits: 0 },
+  },
+};
+
+export const espIntegrityNames: AlgorithmNames<EspHmac> = {
+  "ESP-MD5-HMAC": {
+    cisco: "esp-md5-hmac",
+    strongswan: "md5",
+    linux: { name: "hmac(md5)", keyBits: 128 },
+  },
+  "ESP-SHA-HMAC": {
+    cisco: "esp-sha-hmac",
+    strongswan: "sha1",
+    linux: { name: "hmac(sha1)", keyBits: 160 },
+  },
+  "ESP-SHA-256": {
+    cisco: "esp-sha256-hmac",
+    strongswan: "sha256",
+    linux: { name: "hmac(sha256)", keyBits: 256 },
+  },
+  "ESP-SHA-256-96": {
+    cisco: null,
+    strongswan: "sha256_96",
+    linux: { name: "hmac(sha256)", keyBits: 256 },
+  },
+  "ESP-SHA-384": {
+    cisco: "esp-sha384-hmac",
+    strongswan: "sha384",
+    linux: { name: "hmac(sha384)", keyBits: 384 },
+  },
+  "ESP-SHA-512": {
+    cisco: "esp-sha512-hmac",
+    strongswan: "sha512",
+    linux: { name: "hmac(sha512)", keyBits: 512 },
+  },
+  "ESP-AES-XCBC-MAC": {
+    cisco: null,
+    strongswan: "aesxcbc",
+    linux: { name: "xcbc(aes)", keyBits: 128 },
+  },
+  "ESP-AES-CMAC": {
+    cisco: null,
+    strongswan: "aescmac",
+    linux: { name: "cmac(aes)", keyBits: 128 },
+  },
+  "ESP-GMAC-128/192/256": {
+    cisco: "esp-gmac 256",
+    strongswan: "aes256gmac",
+    linux: { name: "rfc4543(gcm(aes))", keyBits: 288 },
+  },
+};
+
+export const ahIntegrityNames: AlgorithmNames<AhHmac> = {
+  "AH-MD5-HMAC": {
+    cisco: "ah-md5-hmac",
+    strongswan: "md5",
+    linux: { name: "hmac(md5)", keyBits: 128 },
+  },
+  "AH-SHA-HMAC": {
+    cisco: "ah-sha-hmac",
+    strongswan: "sha1",
+    linux: { name: "hmac(sha1)", keyBits: 160 },
+  },
+  "AH-SHA-256": {
+    cisco: "ah-sha256-hmac",
+    strongswan: "sha256",
+    linux: { name: "hmac(sha256)", keyBits: 256 },
+  },
+  "AH-SHA-384": {
+    cisco: "ah-sha384-hmac",
+    strongswan: "sha384",
+    linux: { name: "hmac(sha384)", keyBits: 384 },
+  },
+  "AH-SHA-512": {
+    cisco: "ah-sha512-hmac",
+    strongswan: "sha512",
+    linux: { name: "hmac(sha512)", keyBits: 512 },
+  },
+  "AH-GMAC-128/192/256": { cisco: null, strongswan: null, linux: null },
+};
+
+/** ICV length of each ESP and AH integrity algorithm in bits, for Linux. */
+const truncationBits: { [name: string]: number } = {
+  "hmac(md5)": 96,
+  "hmac(sha1)": 96,
+  "hmac(sha256)": 128,
+  "hmac(sha384)": 192,
+  "hmac(sha512)": 256,
+  "xcbc(aes)": 96,
+  "cmac(aes)": 96,
+};
+
+/** IP protocol and UDP port of each overlay, for traffic selectors. */
+const overlayTrafficSelectors: {
+  [name in Exclude<OverlayType, "None">]: { proto: string; port?: number };
+} = {
+  GRE: { proto: "gre" },
+  VXLAN: { proto: "udp", port: 4789 },
+  GENEVE: { proto: "udp", port: 6081 },
+  L2TPv3: { proto: "l2tp" },
+  "IP-in-IP": { proto: "ipencap" },
+};
+
+/**
+ * Example addresses of the two ends of a tunnel. IPsec peers use the outer
+ * IP family, overlay links the family of their delivery header.
+ */
+const peerAddresses = (family: IPVersion) =>
+  family === "IPv4"
+    ? { local: "192.0.2.1", remote: "198.51.100.1" }
+    : { local: "2001:db8::1", remote: "2001:db8::2" };
+
+/** Returns the padding settings a platform with fixed padding can not follow. */
+function paddingLimitations(form: IFormState, nativePolicy: string) {
+  const unsupported: string[] = [];
+  if (form.padding.policy !== nativePolicy) {
+    unsupported.push(
+      `ESP padding follows the ${nativePolicy} policy, not ${form.padding.policy}.`
+    );
+  }
+  if (form.padding.extraPadding > 0) {
+    unsupported.push("Extra ESP padding can not be configured.");
+  }
+  return unsupported;
+}
+
+function generateCisco(form: IFormState, pathMtu: number): GeneratedConfig {
+  const { transform, tunnelSetting, transport } = form;
+  const unsupported = paddingLimitations(form, "Cisco IOS/IOS-XE");
+  const transforms: string[] = [];
+  const addName = (label: string, name: string | null | undefined) => {
+    if (name) {
+      transforms.push(name);
+    } else if (name === null) {
+      unsupported.push(`${label} is not supported in a transform set.`);
+    }
+  };
+  if (transform.ahInte !== "None") {
+    addName(transform.ahInte, ahIntegrityNames[transform.ahInte].cisco);
+  }
+  if (transform.espEncr !== "None") {
+    addName(transform.espEncr, espEncryptionNames[transform.espEncr].cisco);
+    if (aeadIcvLengthOf(transform) !== 0 && aeadIcvLengthOf(transform) !== 16) {
+      unsupported.push(
+        `${transform.espEncr} always uses a 16 byte ICV, not ${aeadIcvLengthOf(
+          transform
+        )} bytes.`
+      );
+    }
+  }
+  if (transform.espInte !== "None") {
+    addName(transform.espInte, espIntegrityNames[transform.espInte].cisco);
+  }
+  if (form.padding.tfcTarget > 0) {
+    unsupported.push("TFC padding is not supported.");
+  }
+  if (form.transport.tcpEncap) {
+    unsupported.push("RFC 8229 ESP-in-TCP is not supported.");
+  }
+
+  const families = ipFamiliesOf(form);
+  const ipsecKeyword = `ipsec ${families.outer === "IPv4" ? "ipv4" : "ipv6"}`;
+  let tunnelMode = "";
+  switch (tunnelSetting.overlay) {
+    case "None":
+      tunnelMode =
+        form.innerProtocol !== families.outer
+          ? `${ipsecKeyword} ${
+              form.innerProtocol === "IPv4" ? "v4" : "v6"
+            }-overlay`
+          : ipsecKeyword;
+      if (transform.tunnelMode === "Transport") {
+        unsupported.push(
+          "A virtual tunnel interface always uses tunnel mode IPsec."
+        );
+      }
+      break;
+    case "GRE":
+      tunnelMode = families.delivery === "IPv4" ? "gre ip" : "gre ipv6";
+      break;
+    case "IP-in-IP":
+      tunnelMode = "ipip";
+      if (families.delivery === "IPv6") {
+        unsupported.push("IP-in-IP tunnels need an IPv4 delivery header.");
+      }
+      break;
+    default:
+      unsupported.push(
+        `${tunnelSetting.overlay} can not be protected through a tunnel interface.`
+      );
+  }
+  const greChecksum =
+    tunnelSetting.overlay === "GRE" && tunnelSetting.greChecksum;
+  if (greChecksum && families.delivery === "IPv6") {
+    unsupported.push("GRE checksums are only supported over IPv4.");
+  }
+
+  // A virtual tunnel interface ends at the IPsec peer, others at the overlay
+  const peers = peerAddresses(
+    tunnelSetting.overlay === "None" ? families.outer : families.delivery
+  );
+  const recommendation = recommendMtu(form, pathMtu);
+  if (!recommendation) {
+    unsupported.push(
+      `The transform does not fit in the path MTU of ${pathMtu} bytes.`
+    );
+  }
+  const inner = form.innerProtocol === "IPv4" ? "ip" : "ipv6";
+  // A virtual tunnel interface keeps the default tunnel mode
+  const vtiTransport =
+    tunnelSetting.overlay === "None" && transform.tunnelMode === "Transport";
+  const lines = [
+    `crypto ipsec transform-set CALC-TS ${transforms.join(" ")}`,
+    ...(vtiTransport ? [] : [` mode ${transform.tunnelMode.toLowerCase()}`]),
+    "!",
+    "crypto ipsec profile CALC-PROFILE",
+    " set transform-set CALC-TS",
+    "!",
+  ];
+  if (!tunnelMode) {
+    // Without a tunnel mode line IOS would build a GRE tunnel instead
+    lines.push(
+      `! No tunnel interface: ${tunnelSetting.overlay} is not a tunnel mode`
+    );
+    if (transport.natTraver) {
+      lines.push("! NAT-T is negotiated automatically when a NAT is found");
+    }
+    return { platform: "Cisco IOS-XE", config: lines.join("\n"), unsupported };
+  }
+  lines.push("interface Tunnel0");
+  if (recommendation) {
+    lines.push(
+      ` ${inner} mtu ${recommendation.maxInnerSize}`,
+      ` ${inner} tcp adjust-mss ${
+        form.innerProtocol === "IPv4"
+          ? recommendation.tcpMssIPv4
+          : recommendation.tcpMssIPv6
+      }`
+    );
+  }
+  lines.push(" tunnel source GigabitEthernet1");
+  lines.push(` tunnel destination ${peers.remote}`);
+  lines.push(` tunnel mode ${tunnelMode}`);
+  if (tunnelSetting.overlay === "GRE") {
+    if (tunnelSetting.greKey) {
+      lines.push(" tunnel key 1");
+    }
+    if (greChecksum && families.delivery === "IPv4") {
+      lines.push(" tunnel checksum");
+    }
+    if (tunnelSetting.greSequence) {
+      lines.push(" tunnel sequence-datagrams");
+    }
+  }
+  lines.push(" tunnel protection ipsec profile CALC-PROFILE");
+  if (transport.natTraver) {
+    lines.push("!", "! NAT-T is negotiated automatically when a NAT is found");
+  }
+  return { platform: "Cisco IOS-XE", config: lines.join("\n"), unsupported };
+}
+
+function generateStrongSwan(form: IFormState): GeneratedConfig {
+  const { transform, tunnelSetting } = form;
+  const unsupported = paddingLimitations(form, "Linux/strongSwan");
+  const algorithms: string[] = [];
+  const addName = (label: string, name: string | null) => {
+    if (name) {
+      algorithms.push(name);
+    } else {
+      unsupported.push(`${label} is not supported.`);
+    }
+  };
+  if (transform.espEncr !== "None") {
+    const icv = aeadIcvLengthOf(transform);
+    const name = espEncryptionNames[transform.espEncr].strongswan;
+    addName(
+      transform.espEncr,
+      name && transform.espEncr !== "ESP-CHACHA20-POLY1305" && icv > 0
+        ? `${name}${icv}`
+        : name
+    );
+  }
+  if (transform.espInte !== "None") {
+    addName(transform.espInte, espIntegrityNames[transform.espInte].strongswan);
+  }
+  const esp = transform.espEncr !== "None" || transform.espInte !== "None";
+  let ahProposals = "";
+  if (transform.ahInte !== "None") {
+    const name = ahIntegrityNames[transform.ahInte].strongswan;
+    if (!name) {
+      unsupported.push(`${transform.ahInte} is not supported.`);
+    } else if (esp) {
+      unsupported.push("ESP and AH can not be combined in one CHILD_SA.");
+    } else {
+      ahProposals = name;
+    }
+  }
+
+  const child = [`        mode = ${transform.tunnelMode.toLowerCase()}`];
+  if (esp) {
+    child.push(`        esp_proposals = ${algorithms.join("-")}`);
+  }
+  if (ahProposals) {
+    child.push(`        ah_proposals = ${ahProposals}`);
+  }
+  if (form.padding.tfcTarget > 0) {
+    child.push(`        tfc_padding = ${form.padding.tfcTarget}`);
+  }
+  if (form.transport.tcpEncap) {
+    unsupported.push("RFC 8229 ESP-in-TCP is not supported.");
+  }
+  const families = ipFamiliesOf(form);
+  const peers = peerAddresses(families.outer);
+  if (tunnelSetting.overlay !== "None") {
+    // The overlay interface itself is created outside strongSwan. In tunnel
+    // mode its ends are not the IPsec peers.
+    const { proto, port } = overlayTrafficSelectors[tunnelSetting.overlay];
+    const links = peerAddresses(families.delivery);
+    const protocol = `[${proto}${port ? `/${port}` : ""}]`;
+    const tunnel = transform.tunnelMode === "Tunnel";
+    child.push(
+      `        local_ts = ${tunnel ? links.local : "dynamic"}${protocol}`,
+      `        remote_ts = ${tunnel ? links.remote : "dynamic"}${protocol}`
+    );
+    if (transform.tunnelMode === "Tunnel") {
+      unsupported.push(
+        `The ${tunnelSetting.overlay} interface is configured outside strongSwan, see the Linux snippet.`
+      );
+    }
+  }
+  const lines = [
+    "connections {",
+    "  calc {",
+    `    local_addrs = ${peers.local}`,
+    `    remote_addrs = ${peers.remote}`,
+  ];
+  if (form.transport.natTraver) {
+    lines.push("    encap = yes");
+  }
+  lines.push(
+    "    children {",
+    "      calc {",
+    ...child,
+    "      }",
+    "    }",
+    "  }",
+    "}"
+  );
+  return {
+    platform: "strongSwan swanctl.conf",
+    config: lines.join("\n"),
+    unsupported,
+  };
+}
+
+function generateLinux(form: IFormState, pathMtu: number): GeneratedConfig {
+  const { transform, tunnelSetting } = form;
+  const unsupported = paddingLimitations(form, "Linux/strongSwan");
+  const families = ipFamiliesOf(form);
+  const peers = peerAddresses(families.outer);
+  const links = peerAddresses(families.delivery);
+  const mode = transform.tunnelMode.toLowerCase();
+  const ends = `src ${peers.local} dst ${peers.remote}`;
+  const lines: string[] = [];
+
+  const espAlgorithms: string[] = [];
+  const encryption =
+    transform.espEncr !== "None"
+      ? espEncryptionNames[transform.espEncr].linux
+      : null;
+  const integrity =
+    transform.espInte !== "None"
+      ? espIntegrityNames[transform.espInte].linux
+      : null;
+  const key = (bits: number) => (bits > 0 ? `0x<${bits}-bit key>` : '""');
+  if (encryption && aeadIcvLengthOf(transform) > 0) {
+    espAlgorithms.push(
+      `aead '${encryption.name}' ${key(encryption.keyBits)} ${
+        aeadIcvLengthOf(transform) * 8
+      }`
+    );
+  } else if (encryption) {
+    espAlgorithms.push(`enc '${encryption.name}' ${key(encryption.keyBits)}`);
+  }
+  if (transform.espInte === "ESP-GMAC-128/192/256" && integrity) {
+    espAlgorithms.push(
+      `aead '${integrity.name}' ${key(integrity.keyBits)} 128`
+    );
+  } else if (integrity) {
+    const bits =
+      transform.espInte === "ESP-SHA-256-96"
+        ? 96
+        : truncationBits[integrity.name];
+    espAlgorithms.push(
+      `auth-trunc '${integrity.name}' ${key(integrity.keyBits)} ${bits}`
+    );
+  }
+  const esp = transform.espEncr !== "None" || transform.espInte !== "None";
+  const ifId = tunnelSetting.overlay === "None" ? " if_id 1" : "";
+  let encap = "";
+  if (form.transport.natTraver) {
+    encap = " \\\n  encap espinudp 4500 4500 0.0.0.0";
+  } else if (form.transport.tcpEncap) {
+    // The TCP connection itself is opened by the IKE daemon
+    encap = " \\\n  encap espintcp 4500 4500 0.0.0.0";
+  }
+  const tfc =
+    form.padding.tfcTarget > 0 ? ` \\\n  tfcpad ${form.padding.tfcTarget}` : "";
+  if (esp) {
+    lines.push(
+      `ip xfrm state add ${ends} proto esp spi 0x1000 reqid 1 mode ${mode}${ifId} \\\n  ${espAlgorithms.join(
+        " \\\n  "
+      )}${encap}${tfc}`
+    );
+  }
+  if (transform.ahInte !== "None") {
+    const ah = ahIntegrityNames[transform.ahInte].linux;
+    if (!ah) {
+      unsupported.push(`${transform.ahInte} is not supported by the kernel.`);
+    } else {
+      lines.push(
+        `ip xfrm state add ${ends} proto ah spi 0x1001 reqid 1 mode ${mode}${ifId} \\\n  auth-trunc '${
+          ah.name
+        }' ${key(ah.keyBits)} ${truncationBits[ah.name]}`
+      );
+    }
+    if (form.transport.natTraver) {
+      unsupported.push("AH can not be encapsulated in UDP for NAT-T.");
+    }
+  }
+  const templates = [
+    ...(transform.ahInte !== "None" ? ["ah"] : []),
+    ...(esp ? ["esp"] : []),
+  ]
+    .map((proto) => ` \\\n  tmpl ${ends} proto ${proto} reqid 1 mode ${mode}`)
+    .join("");
+  if (tunnelSetting.overlay === "None") {
+    // Everything routed into the XFRM interface is protected
+    const any = form.innerProtocol === "IPv4" ? "0.0.0.0/0" : "::/0";
+    lines.push(
+      `ip xfrm policy add src ${any} dst ${any} dir out if_id 1${templates}`
+    );
+  } else {
+    const { proto, port } = overlayTrafficSelectors[tunnelSetting.overlay];
+    lines.push(
+      `ip xfrm policy add src ${links.local} dst ${
+        links.remote
+      } proto ${proto}${port ? ` dport ${port}` : ""} dir out${templates}`
+    );
+  }
+
+  const recommendation = recommendMtu(form, pathMtu);
+  if (!recommendation) {
+    unsupported.push(
+      `The transform does not fit in the path MTU of ${pathMtu} bytes.`
+    );
+  }
+  const link = `local ${links.local} remote ${links.remote}`;
+  let device = "";
+  switch (tunnelSetting.overlay) {
+    case "None":
+      device = "ipsec0";
+      lines.push(`ip link add ipsec0 type xfrm dev eth0 if_id 1`);
+      break;
+    case "GRE": {
+      device = "gre1";
+      const type = families.delivery === "IPv4" ? "gre" : "ip6gre";
+      const options = [
+        tunnelSetting.greKey ? " key 1" : "",
+        tunnelSetting.greChecksum ? " csum" : "",
+        tunnelSetting.greSequence ? " seq" : "",
+      ].join("");
+      lines.push(`ip link add gre1 type ${type} ${link}${options}`);
+      break;
+    }
+    case "VXLAN":
+      device = "vxlan1";
+      lines.push(`ip link add vxlan1 type vxlan id 1 ${link} dstport 4789`);
+      break;
+    case "GENEVE":
+      device = "geneve1";
+      lines.push(`ip link add geneve1 type geneve id 1 remote ${links.remote}`);
+      if (!tunnelSetting.geneveEthernet) {
+        unsupported.push("GENEVE interfaces always carry Ethernet frames.");
+      }
+      if (tunnelSetting.geneveOptions > 0) {
+        unsupported.push("GENEVE options can not be set on the interface.");
+      }
+      break;
+    case "L2TPv3": {
+      device = "l2tpeth0";
+      const cookie =
+        tunnelSetting.l2tpCookie > 0
+          ? ` cookie <${tunnelSetting.l2tpCookie * 2}-digit hex> peer_cookie <${
+              tunnelSetting.l2tpCookie * 2
+            }-digit hex>`
+          : "";
+      lines.push(
+        `ip l2tp add tunnel tunnel_id 1 peer_tunnel_id 1 encap ip ${link}`,
+        `ip l2tp add session tunnel_id 1 session_id 1 peer_session_id 1${cookie}`
+      );
+      break;
+    }
+    case "IP-in-IP":
+      device = "ipip1";
+      lines.push(
+        families.delivery === "IPv4"
+          ? `ip link add ipip1 type ipip ${link}`
+          : `ip link add ipip1 type ip6tnl mode any ${link}`
+      );
+      break;
+  }
+  if (recommendation) {
+    lines.push(
+      `ip link set ${device} mtu ${recommendation.maxInnerSize} up`,
+      `${
+        form.innerProtocol === "IPv4" ? "iptables" : "ip6tables"
+      } -t mangle -A FORWARD -o ${device} -p tcp --tcp-flags SYN,RST SYN -j TCPMSS --set-mss ${
+        form.innerProtocol === "IPv4"
+          ? recommendation.tcpMssIPv4
+          : recommendation.tcpMssIPv6
+      }`
+    );
+  }
+  return { platform: "Linux ip xfrm", config: lines.join("\n"), unsupported };
+}
+
+/**
+ * Generates configuration for the form on a platform, with the tunnel MTU and
+ * TCP MSS recommended for `pathMtu`. Keys and addresses are placeholders.
+ * The form is expected to pass `validateForm`.
+ */
+export function generateConfig(
+  form: IFormState,
+  platform: ConfigPlatform,
+  pathMtu: number
+): GeneratedConfig {
+  switch (platform) {
+    case "Cisco IOS-XE":
+      return generateCisco(form, pathMtu);
+    case "strongSwan swanctl.conf":
+      return generateStrongSwan(form);
+    case "Linux ip xfrm":
+      return generateLinux(form, pathMtu);
+  }
+}
@@ -0,0 +1,180 @@
+import {
+  AhHmac,
+  EspEncryption,
+  EspHmac,
+  IFormState,
+  InnerTransport,
+  IPFamilies,
+  IPVersion,
+  LinkType,
+  OverlayType,
+  PacketDetail,
+  PaddingPolicy,
+  TunnelMode,
+} from "./types";
+
+/** Size of an IPv4 Header. */
+export const IPV4_HDR_SIZE = 20;
+/** Size of an IPv6 Header. */
+export const IPV6_HDR_SIZE = 40;
+/** Size of a UDP header. */
+export const UDP_HDR_SIZE = 8;
+/** Size of a TCP header without options. */
+export const TCP_HDR_SIZE = 20;
+
+/** Largest inner packet size accepted by `validateForm`. */
+export const MAX_PACKET_SIZE = 64000;
+
+export const espEncrItems: EspEncryption[] = [
+  "None",
+  "ESP-DES/3DES",
+  "ESP-AES-128/192/256",
+  "ESP-AES-CTR-128/192/256",
+  "ESP-GCM-128/192/256",
+  "ESP-CCM-128/192/256",
+  "ESP-CHACHA20-POLY1305",
+  "ESP-NULL",
+];
+
+export const espHmacItems: EspHmac[] = [
+  "None",
+  "ESP-MD5-HMAC",
+  "ESP-SHA-HMAC",
+  "ESP-SHA-256",
+  "ESP-SHA-256-96",
+  "ESP-SHA-384",
+  "ESP-SHA-512",
+  "ESP-AES-XCBC-MAC",
+  "ESP-AES-CMAC",
+  "ESP-GMAC-128/192/256",
+];
+
+export const ahHmacItems: AhHmac[] = [
+  "None",
+  "AH-MD5-HMAC",
+  "AH-SHA-HMAC",
+  "AH-SHA-256",
+  "AH-SHA-384",
+  "AH-SHA-512",
+  "AH-GMAC-128/192/256",
+];
+
+export const tunnelModes: TunnelMode[] = ["Tunnel", "Transport"];
+
+export const ipVersions: IPVersion[] = ["IPv4", "IPv6"];
+
+export const overlayTypes: OverlayType[] = [
+  "None",
+  "GRE",
+  "VXLAN",
+  "GENEVE",
+  "L2TPv3",
+  "IP-in-IP",
+];
+
+export const innerTransports: InnerTransport[] = ["None", "TCP", "UDP", "ICMP"];
+
+export const l2tpCookieSizes = [0, 4, 8];
+
+export const linkTypes: LinkType[] = ["None", "Ethernet", "ATM/AAL5"];
+
+export const paddingPolicies: PaddingPolicy[] = [
+  "Cisco IOS/IOS-XE",
+  "Linux/strongSwan",
+  "Palo Alto PAN-OS",
+  "Juniper Junos",
+  "RFC 4303 Minimum",
+];
+
+/** Largest number of 802.1Q tags or MPLS labels accepted by `validateForm`. */
+export const MAX_STACKED_HEADERS = 8;
+
+export const defaultFormValues: IFormState = {
+  packetSize: 100,
+  innerProtocol: "IPv4",
+  inner: {
+    transport: "None",
+    tcpTimestamps: false,
+    tcpSackBlocks: 0,
+    tcpWindowScale: false,
+    ipv4Options: 0,
+    ipv6HopByHop: 0,
+    ipv6Segments: 0,
+    ipv6DestOptions: 0,
+  },
+  transform: {
+    ahInte: "None",
+    espEncr: "ESP-AES-128/192/256",
+    espInte: "ESP-SHA-HMAC",
+    icvLength: 16,
+    tunnelMode: "Tunnel",
+  },
+  transport: {
+    ipProtocol: "IPv4",
+    natTraver: false,
+    tcpEncap: false,
+  },
+  tunnelSetting: {
+    overlay: "None",
+    deliveryProtocol: "IPv4",
+    greKey: false,
+    greChecksum: false,
+    greSequence: false,
+    geneveEthernet: true,
+    geneveOptions: 0,
+    l2tpCookie: 0,
+  },
+  underlay: {
+    linkType: "None",
+    vlanTags: 0,
+    mplsLabels: 0,
+    pppoe: false,
+  },
+  padding: {
+    policy: "Cisco IOS/IOS-XE",
+    extraPadding: 0,
+    tfcTarget: 0,
+  },
+};
+
+/** Returns the size of the IP header for the given IP version. */
+export function ipHeaderSizeOf(ipProtocol: IPVersion) {
+  return ipProtocol === "IPv4" ? IPV4_HDR_SIZE : IPV6_HDR_SIZE;
+}
+
+/**
+ * Returns the IP family of each header of the encrypted packet.
+ * In transport mode the outer header is the original header, or the overlay
+ * delivery header when an overlay is used, so only one of the settings applies.
+ */
+export function ipFamiliesOf(form: IFormState): IPFamilies {
+  const inner = form.innerProtocol;
+  if (form.transform.tunnelMode === "Transport") {
+    const outer =
+      form.tunnelSetting.overlay !== "None" ? form.transport.ipProtocol : inner;
+    return { outer, delivery: outer, inner };
+  }
+  return {
+    outer: form.transport.ipProtocol,
+    delivery: form.tunnelSetting.deliveryProtocol,
+    inner,
+  };
+}
+
+/** Returns the total size of a list of fields. */
+export function sumBytes(fields: PacketDetail[]) {
+  return fields.reduce((sum, field) => sum + field.bytes, 0);
+}
+
+/** Returns a deep copy of a form, so nested settings are not shared. */
+export function cloneForm(form: IFormState): IFormState {
+  return {
+    ...form,
+    inner: { ...form.inner },
+    transform: { ...form.transform },
+    transport: { ...form.transport },
+    tunnelSetting: { ...form.tunnelSetting },
+    underlay: { ...form.underlay },
+    padding: { ...form.padding },
+  };
+}
@@ -0,0 +1,108 @@
+import { groupLayers } from "./calculate";
+import { PacketDetail } from "./types";
+
+/** Bytes per row of the diagram, 32 bits as in RFC packet diagrams. */
+export const DIAGRAM_ROW_BYTES = 4;
+/** Longest run of rows of one field shown before it is folded into one row. */
+const MAX_UNFOLDED_ROWS = 8;
+
+/** Part of a field that falls in one row of the diagram. */
+export interface DiagramCell {
+  // Index of the field in `ByteDiagram.fields`
+  field: number;
+  // Byte position of the cell within its row (0 to 3)
+  start: number;
+  bytes: number;
+}
+
+/** Row of the diagram, or several folded rows of a single long field. */
+export interface DiagramRow {
+  // Byte offset of the start of the row
+  offset: number;
+  // Number of rows folded into this one (1 for a normal row)
+  rows: number;
+  cells: DiagramCell[];
+}
+
+/** Header or group of fields, e.g. "ESP Header", with its position. */
+export interface DiagramHeader {
+  label: string;
+  offset: number;
+  size: number;
+  // Starts on a 4 byte boundary and is a multiple of 4 bytes long
+  aligned: boolean;
+}
+
+/** RFC-style diagram of a packet, 32 bits per row. */
+export interface ByteDiagram {
+  fields: (PacketDetail & { offset: number })[];
+  rows: DiagramRow[];
+  headers: DiagramHeader[];
+  size: number;
+}
+
+/**
+ * Lays out the fields of a packet at their byte offsets, 32 bits per row.
+ * Link-layer framing is left out, so offsets count from the first byte of
+ * the outer IP header.
+ */
+export function buildByteDiagram(packetDetails: PacketDetail[]): ByteDiagram {
+  const packet = packetDetails.filter(
+    (field) => !field.framing && field.bytes > 0
+  );
+  const fields: ByteDiagram["fields"] = [];
+  const rows: DiagramRow[] = [];
+  let offset = 0;
+
+  packet.forEach((field, index) => {
+    fields.push({ ...field, offset });
+    const end = offset + field.bytes;
+    let position = offset;
+    while (position < end) {
+      const start = position % DIAGRAM_ROW_BYTES;
+      // Fold the middle of a long field, keeping its first and last rows
+      const remainingRows = Math.floor((end - position) / DIAGRAM_ROW_BYTES);
+      const folded =
+        (end - position) % DIAGRAM_ROW_BYTES === 0
+          ? remainingRows - 1
+          : remainingRows;
+      if (start === 0 && position > offset && folded > MAX_UNFOLDED_ROWS) {
+        rows.push({
+          offset: position,
+          rows: folded,
+          cells: [{ field: index, start: 0, bytes: DIAGRAM_ROW_BYTES }],
+        });
+        position += folded * DIAGRAM_ROW_BYTES;
+        continue;
+      }
+      const bytes = Math.min(end - position, DIAGRAM_ROW_BYTES - start);
+      const last = rows[rows.length - 1];
+      if (start > 0 && last) {
+        last.cells.push({ field: index, start, bytes });
+      } else {
+        rows.push({
+          offset: position,
+          rows: 1,
+          cells: [{ field: index, start, bytes }],
+        });
+      }
+      position += bytes;
+    }
+    offset = end;
+  });
+
+  const headers: DiagramHeader[] = [];
+  let headerOffset = 0;
+  for (const layer of groupLayers(packet)) {
+    headers.push({
+      label: layer.label,
+      offset: headerOffset,
+      size: layer.size,
+      aligned:
+        headerOffset % DIAGRAM_ROW_BYTES === 0 &&
+        layer.size % DIAGRAM_ROW_BYTES === 0,
+    });
+    headerOffset += layer.size;
+  }
+  return { fields, rows, headers, size: offset };
+}
@@ -0,0 +1,96 @@
+import { PERMALINK_VERSION } from "./permalink";
+import { IFormState, PacketResult } from "./types";
+
+/** A setting of the form as a dotted path and its value. */
+export type ConfigEntry = [string, string | number | boolean];
+
+/** Flattens the form into dotted paths, e.g. `transform.espEncr`. */
+export function flattenConfig(form: IFormState): ConfigEntry[] {
+  const entries: ConfigEntry[] = [];
+  const visit = (value: unknown, path: string) => {
+    if (value !== null && typeof value === "object") {
+      for (const [key, child] of Object.entries(value)) {
+        visit(child, path ? `${path}.${key}` : key);
+      }
+    } else {
+      entries.push([path, value as ConfigEntry[1]]);
+    }
+  };
+  visit(form, "");
+  return entries;
+}
+
+/** Rows of the summary table: layer, field and size. */
+function summaryRows(result: PacketResult) {
+  const rows: [string, string, number][] = [];
+  for (const layer of result.layers) {
+    if (layer.details.length === 0) {
+      rows.push([layer.label, "", layer.size]);
+    }
+    for (const detail of layer.details) {
+      rows.push([layer.label, detail.text, detail.bytes]);
+    }
+  }
+  rows.push(["Total IPsec Packet Size", "", result.totalSize]);
+  rows.push(["Total Bytes on the Wire", "", result.wireSize]);
+  rows.push(["Overhead", "", result.overhead]);
+  rows.push(["Application Payload", "", result.payloadSize]);
+  return rows;
+}
+
+const csvField = (value: string | number | boolean) => {
+  const text = `${value}`;
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Formats the summary as CSV, preceded by the settings that produced it.
+ * The two tables are separated by an empty line.
+ */
+export function resultToCsv(form: IFormState, result: PacketResult) {
+  const lines = [
+    "Setting,Value",
+    ...flattenConfig(form).map((entry) => entry.map(csvField).join(",")),
+    "",
+    "Layer,Field,Bytes",
+    ...summaryRows(result).map((row) => row.map(csvField).join(",")),
+  ];
+  return lines.join("\n") + "\n";
+}
+
+const markdownField = (value: string | number | boolean) =>
+  `${value}`.replace(/\|/g, "\\|");
+
+/** Formats the settings and the summary as Markdown tables. */
+export function resultToMarkdown(form: IFormState, result: PacketResult) {
+  const table = (header: string[], rows: (string | number | boolean)[][]) => [
+    `| ${header.join(" | ")} |`,
+    `| ${header.map(() => "---").join(" | ")} |`,
+    ...rows.map((row) => `| ${row.map(markdownField).join(" | ")} |`),
+  ];
+  const lines = [
+    "## IPsec Packet",
+    "",
+    ...table(["Layer", "Field", "Bytes"], summaryRows(result)),
+    "",
+    `Overhead: ${result.overhead} bytes (${result.overheadPercent.toFixed(
+      1
+    )}%), efficiency: ${result.efficiency.toFixed(1)}%`,
+    "",
+    "## Configuration",
+    "",
+    ...table(["Setting", "Value"], flattenConfig(form)),
+  ];
+  return lines.join("\n") + "\n";
+}
+
+/** Formats the settings and the full result as JSON. */
+export function resultToJson(form: IFormState, result: PacketResult) {
+  return (
+    JSON.stringify(
+      { version: PERMALINK_VERSION, config: form, result },
+      null,
+      2
+    ) + "\n"
+  );
+}
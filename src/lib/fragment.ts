@@ -0,0 +1,235 @@
+import { calculatePacket } from "./calculate";
+import { ipFamiliesOf, sumBytes } from "./constants";
+import { buildFraming } from "./framing";
+import { buildInnerHeaders, splitOuterHeader } from "./inner";
+import { findMaxInnerSize } from "./mtu";
+import { IFormState, PacketDetail } from "./types";
+
+/** Size of the IPv6 Fragment extension header. */
+export const IPV6_FRAG_HDR_SIZE = 8;
+/** Fragment offsets count in units of this many bytes. */
+export const FRAGMENT_ALIGNMENT = 8;
+
+/** How the DF bit of the outer IPv4 header is set (`crypto ipsec df-bit`). */
+export type DfBitPolicy = "Copy" | "Set" | "Clear";
+
+export const dfBitPolicies: DfBitPolicy[] = ["Copy", "Set", "Clear"];
+
+/** How a router handles a packet that does not fit the link MTU. */
+export interface FragmentationSettings {
+  // DF bit of the inner IPv4 packet (IPv6 is never fragmented by routers)
+  innerDf: boolean;
+  // Fragment the inner packet before encryption when it allows it
+  preFragmentation: boolean;
+  dfBit: DfBitPolicy;
+}
+
+export const defaultFragmentationSettings: FragmentationSettings = {
+  innerDf: false,
+  preFragmentation: true,
+  dfBit: "Copy",
+};
+
+export type FragmentationOutcome =
+  | "None"
+  | "Before encryption"
+  | "After encryption"
+  | "Dropped";
+
+/** A single packet sent on the link. */
+export interface Fragment {
+  // Offset of the fragment's data in the original packet
+  offset: number;
+  // Bytes of the original packet carried by this fragment
+  dataSize: number;
+  // Fields of the fragment, outermost first (layer 3 only)
+  fields: PacketDetail[];
+  // Size of the fragment (layer 3)
+  size: number;
+  // Size including the link-layer framing
+  wireSize: number;
+}
+
+/** Result of sending one encrypted packet over a link. */
+export interface FragmentationResult {
+  linkMtu: number;
+  outcome: FragmentationOutcome;
+  // Size of the unfragmented encrypted packet
+  encryptedSize: number;
+  // Packets sent on the link (empty when the packet is dropped)
+  fragments: Fragment[];
+  // ICMP error returned to the sender of a dropped packet
+  icmp: { message: string; mtu: number } | null;
+  // Bytes added by fragmentation, at layer 3 and on the wire
+  extraBytes: number;
+  extraWireBytes: number;
+  // Packets added by fragmentation
+  extraPackets: number;
+}
+
+/** Splits `dataSize` bytes into chunks of at most `maxChunk` bytes. */
+function splitData(dataSize: number, maxChunk: number) {
+  const chunks: { offset: number; dataSize: number }[] = [];
+  if (maxChunk < FRAGMENT_ALIGNMENT) {
+    throw new RangeError(`Fragments can not carry ${maxChunk} bytes of data`);
+  }
+  for (let offset = 0; offset < dataSize; offset += maxChunk) {
+    chunks.push({ offset, dataSize: Math.min(maxChunk, dataSize - offset) });
+  }
+  return chunks;
+}
+
+/**
+ * Fragments the encrypted packet at the outer IP layer. Returns `null` if
+ * the headers repeated in every fragment leave no room for fragment data.
+ */
+function fragmentAfterEncryption(
+  form: IFormState,
+  packet: PacketDetail[],
+  linkMtu: number
+) {
+  // Options and routing headers are repeated in every fragment
+  const [outerHeader, payload] = splitOuterHeader(packet);
+  const ipv6 = ipFamiliesOf(form).outer === "IPv6";
+  const fragmentHeaderSize = ipv6 ? IPV6_FRAG_HDR_SIZE : 0;
+  // All fragments but the last carry a multiple of 8 bytes
+  const maxChunk =
+    Math.floor(
+      (linkMtu - sumBytes(outerHeader) - fragmentHeaderSize) /
+        FRAGMENT_ALIGNMENT
+    ) * FRAGMENT_ALIGNMENT;
+  if (maxChunk < FRAGMENT_ALIGNMENT) {
+    return null;
+  }
+  return splitData(sumBytes(payload), maxChunk).map(({ offset, dataSize }) => {
+    const fields: PacketDetail[] = [...outerHeader];
+    if (ipv6) {
+      fields.push({
+        text: "IPv6 Fragment Header",
+        bytes: IPV6_FRAG_HDR_SIZE,
+      });
+    }
+    fields.push({ text: `Fragment Data (offset ${offset})`, bytes: dataSize });
+    return { offset, dataSize, fields };
+  });
+}
+
+/**
+ * Fragments the inner IPv4 packet so every encrypted fragment fits.
+ * Returns `null` if no fragment can be made small enough.
+ */
+function fragmentBeforeEncryption(form: IFormState, linkMtu: number) {
+  const maxInnerSize = findMaxInnerSize(form, linkMtu);
+  const [innerHeader] = splitOuterHeader(
+    buildInnerHeaders(form.innerProtocol, form.inner)
+  );
+  const innerHeaderSize = sumBytes(innerHeader);
+  if (maxInnerSize === null) {
+    return null;
+  }
+  const maxChunk =
+    Math.floor((maxInnerSize - innerHeaderSize) / FRAGMENT_ALIGNMENT) *
+    FRAGMENT_ALIGNMENT;
+  if (maxChunk < FRAGMENT_ALIGNMENT) {
+    return null;
+  }
+  return splitData(form.packetSize - innerHeaderSize, maxChunk).map(
+    ({ offset, dataSize }) => {
+      // Fragments carry the transport header and data as opaque bytes
+      const { fields } = calculatePacket({
+        ...form,
+        packetSize: innerHeaderSize + dataSize,
+        inner: { ...form.inner, transport: "None" },
+      });
+      return {
+        offset,
+        dataSize,
+        fields: fields.filter((field) => !field.framing),
+      };
+    }
+  );
+}
+
+/**
+ * Simulates sending the form's encrypted packet over a link of `linkMtu`
+ * bytes, fragmenting or dropping it when it does not fit.
+ * The form is expected to pass `validateForm` and the MTU `validateMtu`.
+ */
+export function simulateFragmentation(
+  form: IFormState,
+  linkMtu: number,
+  settings: FragmentationSettings
+): FragmentationResult {
+  const result = calculatePacket(form);
+  const packet = result.fields.filter((field) => !field.framing);
+  const families = ipFamiliesOf(form);
+  const withFraming = (
+    fragments: { offset: number; dataSize: number; fields: PacketDetail[] }[]
+  ): Fragment[] =>
+    fragments.map((fragment) => {
+      const size = sumBytes(fragment.fields);
+      const framing = buildFraming(form.underlay, size);
+      return {
+        ...fragment,
+        size,
+        wireSize: size + sumBytes(framing.header) + sumBytes(framing.trailer),
+      };
+    });
+  const summarise = (
+    outcome: FragmentationOutcome,
+    fragments: Fragment[],
+    icmp: FragmentationResult["icmp"] = null
+  ): FragmentationResult => ({
+    linkMtu,
+    outcome,
+    encryptedSize: result.totalSize,
+    fragments,
+    icmp,
+    extraBytes:
+      fragments.length > 0
+        ? fragments.reduce((sum, f) => sum + f.size, 0) - result.totalSize
+        : 0,
+    extraWireBytes:
+      fragments.length > 0
+        ? fragments.reduce((sum, f) => sum + f.wireSize, 0) - result.wireSize
+        : 0,
+    extraPackets: Math.max(fragments.length - 1, 0),
+  });
+
+  if (result.totalSize <= linkMtu) {
+    return summarise(
+      "None",
+      withFraming([{ offset: 0, dataSize: result.totalSize, fields: packet }])
+    );
+  }
+
+  // Routers never fragment IPv6 packets, so IPv6 counts as DF set
+  const innerDf = form.innerProtocol === "IPv6" || settings.innerDf;
+  if (!innerDf && settings.preFragmentation) {
+    const fragments = fragmentBeforeEncryption(form, linkMtu);
+    if (fragments) {
+      return summarise("Before encryption", withFraming(fragments));
+    }
+  }
+
+  // The encrypting router is the source of the outer packet, so it may
+  // fragment it unless an outer IPv4 header has DF set
+  const outerDf =
+    families.outer === "IPv4" &&
+    (settings.dfBit === "Set" || (settings.dfBit === "Copy" && innerDf));
+  if (!outerDf) {
+    const fragments = fragmentAfterEncryption(form, packet, linkMtu);
+    // Nothing is sent back when the router can not fragment the packet
+    return fragments
+      ? summarise("After encryption", withFraming(fragments))
+      : summarise("Dropped", []);
+  }
+
+  return summarise("Dropped", [], {
+    message:
+      form.innerProtocol === "IPv4"
+        ? "ICMP Destination Unreachable, Fragmentation Needed"
+        : "ICMPv6 Packet Too Big",
+    mtu: findMaxInnerSize(form, linkMtu) ?? 0,
+  });
+}
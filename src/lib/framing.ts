@@ -0,0 +1,134 @@
+import { sumBytes } from "./constants";
+import { PacketDetail, UnderlaySettings } from "./types";
+
+/** Preamble and start frame delimiter sent before every Ethernet frame. */
+export const ETH_PREAMBLE_SIZE = 8;
+/** Ethernet II destination, source and EtherType. */
+export const ETH_HDR_SIZE = 14;
+/** Ethernet frame check sequence. */
+export const ETH_FCS_SIZE = 4;
+/** Minimum idle time between frames, in bytes. */
+export const ETH_IFG_SIZE = 12;
+/** Smallest Ethernet frame, from the destination address to the FCS. */
+export const ETH_MIN_FRAME_SIZE = 64;
+/** Payload carried by a single ATM cell. */
+export const ATM_CELL_PAYLOAD = 48;
+/** Header of a single ATM cell. */
+export const ATM_CELL_HDR_SIZE = 5;
+
+/** Link-layer fields surrounding the IP packet, outermost first. */
+export interface Framing {
+  // Fields sent before the IP packet
+  header: PacketDetail[];
+  // Fields sent after the IP packet
+  trailer: PacketDetail[];
+}
+
+/**
+ * Builds the link-layer framing for an IP packet of `l3Size` bytes.
+ * Returns empty lists when no underlay framing is selected.
+ */
+export function buildFraming(
+  underlay: UnderlaySettings,
+  l3Size: number
+): Framing {
+  const { linkType, vlanTags, mplsLabels, pppoe } = underlay;
+  const header: PacketDetail[] = [];
+  const trailer: PacketDetail[] = [];
+
+  // Headers between the Ethernet header and the IP packet
+  const innerHeaders: PacketDetail[] = [];
+  for (let tag = 1; tag <= vlanTags; tag++) {
+    innerHeaders.push({
+      text: `802.1Q Tag ${tag}`,
+      bytes: 4,
+      group: "802.1Q Tags",
+      framing: true,
+    });
+  }
+  if (pppoe) {
+    innerHeaders.push(
+      { text: "PPPoE Header", bytes: 6, group: "PPPoE/PPP", framing: true },
+      { text: "PPP Protocol", bytes: 2, group: "PPPoE/PPP", framing: true }
+    );
+  }
+  const mplsStack: PacketDetail[] = [];
+  for (let label = 1; label <= mplsLabels; label++) {
+    mplsStack.push({
+      text: `MPLS Label ${label}`,
+      bytes: 4,
+      group: "MPLS Label Stack",
+      framing: true,
+    });
+  }
+
+  if (linkType === "Ethernet") {
+    header.push(
+      { text: "Preamble + SFD", bytes: ETH_PREAMBLE_SIZE, framing: true },
+      { text: "Ethernet Header", bytes: ETH_HDR_SIZE, framing: true },
+      ...innerHeaders,
+      ...mplsStack
+    );
+    const frameSize =
+      sumBytes(header) - ETH_PREAMBLE_SIZE + l3Size + ETH_FCS_SIZE;
+    if (frameSize < ETH_MIN_FRAME_SIZE) {
+      trailer.push({
+        text: "Ethernet Pad",
+        bytes: ETH_MIN_FRAME_SIZE - frameSize,
+        framing: true,
+      });
+    }
+    trailer.push(
+      { text: "Ethernet FCS", bytes: ETH_FCS_SIZE, framing: true },
+      { text: "Inter-Frame Gap", bytes: ETH_IFG_SIZE, framing: true }
+    );
+  } else if (linkType === "ATM/AAL5") {
+    if (pppoe) {
+      // RFC 2684 bridged Ethernet (without FCS) carrying PPPoE
+      header.push(
+        {
+          text: "LLC/SNAP Header (Bridged)",
+          bytes: 10,
+          group: "RFC 2684",
+          framing: true,
+        },
+        { text: "Ethernet Header", bytes: ETH_HDR_SIZE, framing: true },
+        ...innerHeaders
+      );
+    } else {
+      // RFC 2684 routed IP
+      header.push({
+        text: "LLC/SNAP Header (Routed)",
+        bytes: 8,
+        group: "RFC 2684",
+        framing: true,
+      });
+    }
+    header.push(...mplsStack);
+    const pduSize = sumBytes(header) + l3Size + 8;
+    const cells = Math.ceil(pduSize / ATM_CELL_PAYLOAD);
+    trailer.push(
+      {
+        text: "AAL5 Pad",
+        bytes: cells * ATM_CELL_PAYLOAD - pduSize,
+        group: "AAL5 Trailer",
+        framing: true,
+      },
+      {
+        text: "AAL5 Length/CRC",
+        bytes: 8,
+        group: "AAL5 Trailer",
+        framing: true,
+      },
+      {
+        text: `ATM Cell Headers (${cells} cells)`,
+        bytes: cells * ATM_CELL_HDR_SIZE,
+        group: "ATM Cell Headers",
+        framing: true,
+      }
+    );
+  } else {
+    header.push(...innerHeaders, ...mplsStack);
+  }
+  return { header, trailer };
+}
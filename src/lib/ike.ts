@@ -0,0 +1,590 @@
+import { ipHeaderSizeOf, sumBytes, UDP_HDR_SIZE } from "./constants";
+import { FRAGMENT_ALIGNMENT, IPV6_FRAG_HDR_SIZE } from "./fragment";
+import { IPVersion, PacketDetail } from "./types";
+import { validateMtu } from "./validate";
+
+export type IkeEncryption =
+  | "AES-GCM-16"
+  | "ChaCha20-Poly1305"
+  | "AES-CBC + HMAC-SHA2-256"
+  | "AES-CBC + HMAC-SHA2-512";
+
+export type IkeKeyExchange =
+  | "Group 14 (MODP-2048)"
+  | "Group 15 (MODP-3072)"
+  | "Group 16 (MODP-4096)"
+  | "Group 19 (ECP-256)"
+  | "Group 20 (ECP-384)"
+  | "Group 21 (ECP-521)"
+  | "Group 31 (Curve25519)"
+  | "Group 32 (Curve448)"
+  | "Group 35 (ML-KEM-512)"
+  | "Group 36 (ML-KEM-768)"
+  | "Group 37 (ML-KEM-1024)";
+
+export type IkeKeyType =
+  | "RSA 2048"
+  | "RSA 3072"
+  | "RSA 4096"
+  | "ECDSA P-256"
+  | "ECDSA P-384"
+  | "Ed25519"
+  | "ML-DSA-44"
+  | "ML-DSA-65"
+  | "ML-DSA-87";
+
+/** Settings of an IKEv2 exchange. Both peers are assumed to be alike. */
+export interface IkeSettings {
+  // IP version the IKE messages are sent with
+  ipProtocol: IPVersion;
+  encryption: IkeEncryption;
+  // Key exchange in IKE_SA_INIT
+  keyExchange: IkeKeyExchange;
+  // RFC 9370 key exchanges, one IKE_INTERMEDIATE exchange each
+  additionalKeyExchanges: IkeKeyExchange[];
+  // Key of each certificate sent, end-entity first. Without certificates
+  // the peers authenticate with a pre-shared key.
+  certificates: IkeKeyType[];
+  // Trust anchors listed in CERTREQ payloads
+  certificateRequests: number;
+  // Length of the FQDN, e-mail address or DN in the ID payloads
+  idLength: number;
+  // IP version and number of the traffic selectors of the Child SA
+  selectorProtocol: IPVersion;
+  trafficSelectors: number;
+  // Initiator asks for an inner address and DNS server (remote access)
+  configPayload: boolean;
+  // Vendor ID payloads in IKE_SA_INIT
+  vendorIds: number;
+}
+
+/** Size of an IKE message sent in one or more IP packets. */
+export interface IkeTransmission {
+  // IP packet carrying the whole message
+  packetSize: number;
+  // IP packets sent; 1 when the message fits the MTU
+  packets: number;
+  // Largest IP packet sent
+  largestPacket: number;
+  // The message is split by RFC 7383 IKE fragmentation
+  ikeFragmentation: boolean;
+  // The message is split by IP fragmentation, which IKE_SA_INIT needs
+  // because it is sent before keys exist to protect IKE fragments
+  ipFragmentation: boolean;
+}
+
+/** One IKE message of the exchange. */
+export interface IkeMessage {
+  name: string;
+  // IKE header and payloads; encrypted payloads are grouped under "SK"
+  payloads: PacketDetail[];
+  // Size of the IKE message, the UDP payload on port 500
+  size: number;
+  // Sent on port 500
+  direct: IkeTransmission;
+  // Sent on port 4500 behind the 4 byte non-ESP marker of NAT-T
+  natTraversal: IkeTransmission;
+}
+
+export const ikeEncryptions: IkeEncryption[] = [
+  "AES-GCM-16",
+  "ChaCha20-Poly1305",
+  "AES-CBC + HMAC-SHA2-256",
+  "AES-CBC + HMAC-SHA2-512",
+];
+
+export const ikeKeyExchanges: IkeKeyExchange[] = [
+  "Group 14 (MODP-2048)",
+  "Group 15 (MODP-3072)",
+  "Group 16 (MODP-4096)",
+  "Group 19 (ECP-256)",
+  "Group 20 (ECP-384)",
+  "Group 21 (ECP-521)",
+  "Group 31 (Curve25519)",
+  "Group 32 (Curve448)",
+  "Group 35 (ML-KEM-512)",
+  "Group 36 (ML-KEM-768)",
+  "Group 37 (ML-KEM-1024)",
+];
+
+export const ikeKeyTypes: IkeKeyType[] = [
+  "RSA 2048",
+  "RSA 3072",
+  "RSA 4096",
+  "ECDSA P-256",
+  "ECDSA P-384",
+  "Ed25519",
+  "ML-DSA-44",
+  "ML-DSA-65",
+  "ML-DSA-87",
+];
+
+/** RFC 9370 allows up to 7 additional key exchanges. */
+export const MAX_ADDITIONAL_KEY_EXCHANGES = 7;
+export const MAX_CERTIFICATES = 8;
+
+export const defaultIkeSettings: IkeSettings = {
+  ipProtocol: "IPv4",
+  encryption: "AES-GCM-16",
+  keyExchange: "Group 19 (ECP-256)",
+  additionalKeyExchanges: [],
+  certificates: ["RSA 2048", "RSA 2048"],
+  certificateRequests: 1,
+  idLength: 20,
+  selectorProtocol: "IPv4",
+  trafficSelectors: 1,
+  configPayload: false,
+  vendorIds: 2,
+};
+
+const ikeEncryptionSpecs: {
+  [name in IkeEncryption]: {
+    iv: number;
+    icv: number;
+    // Cipher block size the encrypted data is padded to
+    block: number;
+    // Output of the PRF, used as a pre-shared key AUTH value
+    prf: number;
+    aead: boolean;
+  };
+} = {
+  "AES-GCM-16": { iv: 8, icv: 16, block: 1, prf: 32, aead: true },
+  "ChaCha20-Poly1305": { iv: 8, icv: 16, block: 1, prf: 32, aead: true },
+  "AES-CBC + HMAC-SHA2-256": {
+    iv: 16,
+    icv: 16,
+    block: 16,
+    prf: 32,
+    aead: false,
+  },
+  "AES-CBC + HMAC-SHA2-512": {
+    iv: 16,
+    icv: 32,
+    block: 16,
+    prf: 64,
+    aead: false,
+  },
+};
+
+/** Key exchange data sent by the initiator and by the responder. */
+const keyExchangeSpecs: {
+  [name in IkeKeyExchange]: { initiator: number; responder: number };
+} = {
+  "Group 14 (MODP-2048)": { initiator: 256, responder: 256 },
+  "Group 15 (MODP-3072)": { initiator: 384, responder: 384 },
+  "Group 16 (MODP-4096)": { initiator: 512, responder: 512 },
+  "Group 19 (ECP-256)": { initiator: 64, responder: 64 },
+  "Group 20 (ECP-384)": { initiator: 96, responder: 96 },
+  "Group 21 (ECP-521)": { initiator: 132, responder: 132 },
+  "Group 31 (Curve25519)": { initiator: 32, responder: 32 },
+  "Group 32 (Curve448)": { initiator: 56, responder: 56 },
+  // ML-KEM encapsulation key from the initiator, ciphertext back
+  "Group 35 (ML-KEM-512)": { initiator: 800, responder: 768 },
+  "Group 36 (ML-KEM-768)": { initiator: 1184, responder: 1088 },
+  "Group 37 (ML-KEM-1024)": { initiator: 1568, responder: 1568 },
+};
+
+/** DER sizes of a key, its largest signature and its AlgorithmIdentifier. */
+const keyTypeSpecs: {
+  [name in IkeKeyType]: {
+    publicKey: number;
+    signature: number;
+    algorithm: number;
+  };
+} = {
+  "RSA 2048": { publicKey: 294, signature: 256, algorithm: 15 },
+  "RSA 3072": { publicKey: 422, signature: 384, algorithm: 15 },
+  "RSA 4096": { publicKey: 550, signature: 512, algorithm: 15 },
+  "ECDSA P-256": { publicKey: 91, signature: 72, algorithm: 12 },
+  "ECDSA P-384": { publicKey: 120, signature: 104, algorithm: 12 },
+  Ed25519: { publicKey: 44, signature: 64, algorithm: 7 },
+  "ML-DSA-44": { publicKey: 1334, signature: 2420, algorithm: 13 },
+  "ML-DSA-65": { publicKey: 1974, signature: 3309, algorithm: 13 },
+  "ML-DSA-87": { publicKey: 2614, signature: 4627, algorithm: 13 },
+};
+
+/** Names, validity, serial number and typical extensions of a certificate. */
+const CERT_BASE_SIZE = 400;
+const IKE_HDR_SIZE = 28;
+const GENERIC_PAYLOAD_HDR_SIZE = 4;
+/** Generic header and fragment number and total of an SKF payload. */
+const SKF_HDR_SIZE = 8;
+const NOTIFY_HDR_SIZE = 8;
+const NONCE_SIZE = 32;
+const NON_ESP_MARKER_SIZE = 4;
+
+/**
+ * Returns the estimated DER size of a certificate, signed with the key of
+ * the next certificate in the chain. The issuer of the last certificate is
+ * assumed to use the same key type.
+ */
+export function certificateSizeOf(certificates: IkeKeyType[], index: number) {
+  const subject = keyTypeSpecs[certificates[index]];
+  const issuer =
+    keyTypeSpecs[certificates[Math.min(index + 1, certificates.length - 1)]];
+  // The signature algorithm is repeated inside the signed part, and the
+  // signature is wrapped in a BIT STRING
+  return (
+    CERT_BASE_SIZE +
+    subject.publicKey +
+    2 * issuer.algorithm +
+    issuer.signature +
+    4
+  );
+}
+
+/** Returns the SA payload with a single proposal. */
+function buildSaPayload(settings: IkeSettings, childSa: boolean): PacketDetail {
+  const aead = ikeEncryptionSpecs[settings.encryption].aead;
+  // Proposal header and transforms; ENCR carries a key length attribute
+  let size = GENERIC_PAYLOAD_HDR_SIZE + 8 + 12 + (aead ? 0 : 8);
+  if (childSa) {
+    // ESP SPI and the ESN transform
+    size += 4 + 8;
+  } else {
+    // PRF, KE and one ADDKE transform per additional key exchange
+    size += 8 + 8 + 8 * settings.additionalKeyExchanges.length;
+  }
+  return { text: "SA", bytes: size };
+}
+
+function buildKePayload(
+  keyExchange: IkeKeyExchange,
+  initiator: boolean
+): PacketDetail {
+  const spec = keyExchangeSpecs[keyExchange];
+  return {
+    text: "KE",
+    bytes:
+      GENERIC_PAYLOAD_HDR_SIZE +
+      4 +
+      (initiator ? spec.initiator : spec.responder),
+  };
+}
+
+/** Returns the notifications sent in both IKE_SA_INIT messages. */
+function buildInitNotifications(settings: IkeSettings): PacketDetail[] {
+  const notifications: PacketDetail[] = [
+    { text: "N(NAT_DETECTION_SOURCE_IP)", bytes: NOTIFY_HDR_SIZE + 20 },
+    { text: "N(NAT_DETECTION_DESTINATION_IP)", bytes: NOTIFY_HDR_SIZE + 20 },
+    { text: "N(IKEV2_FRAGMENTATION_SUPPORTED)", bytes: NOTIFY_HDR_SIZE },
+  ];
+  if (settings.certificates.length > 0) {
+    // Four 2 byte hash algorithm identifiers (RFC 7427)
+    notifications.push({
+      text: "N(SIGNATURE_HASH_ALGORITHMS)",
+      bytes: NOTIFY_HDR_SIZE + 8,
+    });
+  }
+  if (settings.additionalKeyExchanges.length > 0) {
+    notifications.push({
+      text: "N(INTERMEDIATE_EXCHANGE_SUPPORTED)",
+      bytes: NOTIFY_HDR_SIZE,
+    });
+  }
+  for (let vendorId = 1; vendorId <= settings.vendorIds; vendorId++) {
+    notifications.push({
+      text: `V ${vendorId}`,
+      bytes: GENERIC_PAYLOAD_HDR_SIZE + 16,
+    });
+  }
+  return notifications;
+}
+
+function buildCertReqPayload(settings: IkeSettings): PacketDetail[] {
+  if (settings.certificates.length === 0 || settings.certificateRequests < 1) {
+    return [];
+  }
+  // Certificate encoding and a SHA-1 hash of each trust anchor's key
+  return [
+    {
+      text: "CERTREQ",
+      bytes: GENERIC_PAYLOAD_HDR_SIZE + 1 + 20 * settings.certificateRequests,
+    },
+  ];
+}
+
+/** Returns the ID, CERT and AUTH payloads of one peer. */
+function buildIdentityPayloads(settings: IkeSettings, peer: "i" | "r") {
+  const payloads: PacketDetail[] = [
+    {
+      text: `ID${peer}`,
+      bytes: GENERIC_PAYLOAD_HDR_SIZE + 4 + settings.idLength,
+    },
+  ];
+  settings.certificates.forEach((_, index) => {
+    payloads.push({
+      text: `CERT ${index + 1}`,
+      bytes:
+        GENERIC_PAYLOAD_HDR_SIZE +
+        1 +
+        certificateSizeOf(settings.certificates, index),
+    });
+  });
+  let authData = ikeEncryptionSpecs[settings.encryption].prf;
+  if (settings.certificates.length > 0) {
+    // RFC 7427 digital signature: AlgorithmIdentifier and signature
+    const key = keyTypeSpecs[settings.certificates[0]];
+    authData = 1 + key.algorithm + key.signature;
+  }
+  payloads.push({
+    text: "AUTH",
+    bytes: GENERIC_PAYLOAD_HDR_SIZE + 4 + authData,
+  });
+  return payloads;
+}
+
+function buildChildSaPayloads(settings: IkeSettings): PacketDetail[] {
+  const selector = settings.selectorProtocol === "IPv4" ? 16 : 40;
+  const selectors =
+    GENERIC_PAYLOAD_HDR_SIZE + 4 + selector * settings.trafficSelectors;
+  return [
+    buildSaPayload(settings, true),
+    { text: "TSi", bytes: selectors },
+    { text: "TSr", bytes: selectors },
+  ];
+}
+
+/** Returns the CP payload asking for or assigning an address and DNS server. */
+function buildConfigPayload(
+  settings: IkeSettings,
+  reply: boolean
+): PacketDetail[] {
+  if (!settings.configPayload) {
+    return [];
+  }
+  // Attribute headers, with values only in the reply
+  const values = settings.selectorProtocol === "IPv4" ? 4 + 4 : 17 + 16;
+  return [
+    {
+      text: reply ? "CP(CFG_REPLY)" : "CP(CFG_REQUEST)",
+      bytes: GENERIC_PAYLOAD_HDR_SIZE + 4 + 8 + (reply ? values : 0),
+    },
+  ];
+}
+
+/** Returns the padded size of data encrypted with the IKE SA's cipher. */
+function encryptedSizeOf(settings: IkeSettings, plaintext: number) {
+  const { block } = ikeEncryptionSpecs[settings.encryption];
+  // The pad length byte is encrypted with the data
+  return Math.ceil((plaintext + 1) / block) * block;
+}
+
+/** Wraps payloads in an Encrypted and Authenticated (SK) payload. */
+function encrypt(settings: IkeSettings, payloads: PacketDetail[]) {
+  const { iv, icv } = ikeEncryptionSpecs[settings.encryption];
+  const plaintext = sumBytes(payloads);
+  const group = "SK";
+  return [
+    { text: "SK Header", bytes: GENERIC_PAYLOAD_HDR_SIZE, group },
+    { text: "SK IV", bytes: iv, group },
+    ...payloads.map((payload) => ({ ...payload, group })),
+    {
+      text: "SK Padding",
+      bytes: encryptedSizeOf(settings, plaintext) - plaintext,
+      group,
+    },
+    { text: "SK ICV", bytes: icv, group },
+  ];
+}
+
+/**
+ * Returns the most plaintext an RFC 7383 fragment carries, or 0 when not
+ * even one byte fits.
+ */
+function fragmentCapacityOf(
+  settings: IkeSettings,
+  pathMtu: number,
+  marker: number
+) {
+  const { iv, icv, block } = ikeEncryptionSpecs[settings.encryption];
+  const room =
+    pathMtu -
+    ipHeaderSizeOf(settings.ipProtocol) -
+    UDP_HDR_SIZE -
+    marker -
+    IKE_HDR_SIZE -
+    SKF_HDR_SIZE -
+    iv -
+    icv;
+  return Math.max(Math.floor(room / block) * block - 1, 0);
+}
+
+/**
+ * Returns how a message is sent over the path. `plaintext` is the size of
+ * the encrypted payloads, or null for the unencrypted IKE_SA_INIT.
+ */
+function transmit(
+  settings: IkeSettings,
+  message: PacketDetail[],
+  plaintext: number | null,
+  pathMtu: number,
+  marker: number
+): IkeTransmission {
+  const ipHeader = ipHeaderSizeOf(settings.ipProtocol);
+  const packetSize = ipHeader + UDP_HDR_SIZE + marker + sumBytes(message);
+  const transmission = {
+    packetSize,
+    packets: 1,
+    largestPacket: packetSize,
+    ikeFragmentation: false,
+    ipFragmentation: false,
+  };
+  if (packetSize <= pathMtu) {
+    return transmission;
+  }
+  if (plaintext === null) {
+    const fragmentHeader =
+      settings.ipProtocol === "IPv6" ? IPV6_FRAG_HDR_SIZE : 0;
+    const payload =
+      Math.floor((pathMtu - ipHeader - fragmentHeader) / FRAGMENT_ALIGNMENT) *
+      FRAGMENT_ALIGNMENT;
+    return {
+      ...transmission,
+      packets: Math.ceil((packetSize - ipHeader) / payload),
+      largestPacket: ipHeader + fragmentHeader + payload,
+      ipFragmentation: true,
+    };
+  }
+  const { iv, icv } = ikeEncryptionSpecs[settings.encryption];
+  const capacity = fragmentCapacityOf(settings, pathMtu, marker);
+  const packets = Math.ceil(plaintext / capacity);
+  const fragment = (size: number) =>
+    ipHeader +
+    UDP_HDR_SIZE +
+    marker +
+    IKE_HDR_SIZE +
+    SKF_HDR_SIZE +
+    iv +
+    encryptedSizeOf(settings, size) +
+    icv;
+  return {
+    ...transmission,
+    packets,
+    largestPacket: fragment(Math.min(capacity, plaintext)),
+    ikeFragmentation: true,
+  };
+}
+
+/**
+ * Checks IKE settings and the path MTU.
+ * Returns an error message, or an empty string when they are valid.
+ */
+export function validateIke(settings: IkeSettings, pathMtu: number) {
+  const mtuAlert = validateMtu(pathMtu, settings.ipProtocol);
+  if (mtuAlert) {
+    return mtuAlert;
+  }
+  if (settings.additionalKeyExchanges.length > MAX_ADDITIONAL_KEY_EXCHANGES) {
+    return `RFC 9370 allows at most ${MAX_ADDITIONAL_KEY_EXCHANGES} additional key exchanges`;
+  }
+  if (settings.certificates.length > MAX_CERTIFICATES) {
+    return `Please send at most ${MAX_CERTIFICATES} certificates`;
+  }
+  const counts: [number, string, number, number][] = [
+    [settings.idLength, "ID length", 1, 255],
+    [settings.certificateRequests, "number of trust anchors", 0, 16],
+    [settings.trafficSelectors, "number of traffic selectors", 1, 32],
+    [settings.vendorIds, "number of vendor IDs", 0, 16],
+  ];
+  for (const [value, name, min, max] of counts) {
+    if (!(value >= min) || value > max || !Number.isInteger(value)) {
+      return `Please enter a ${name} between ${min} and ${max}`;
+    }
+  }
+  if (fragmentCapacityOf(settings, pathMtu, NON_ESP_MARKER_SIZE) < 1) {
+    return "The MTU is too small to carry IKE fragments";
+  }
+  return "";
+}
+
+/**
+ * Calculates the messages of an IKEv2 exchange up to the first Child SA:
+ * IKE_SA_INIT, one IKE_INTERMEDIATE exchange per additional key exchange
+ * and IKE_AUTH. The inputs are expected to pass `validateIke`.
+ */
+export function calculateIke(
+  settings: IkeSettings,
+  pathMtu: number
+): IkeMessage[] {
+  const header: PacketDetail = { text: "IKE Header", bytes: IKE_HDR_SIZE };
+  const nonce: PacketDetail = {
+    text: "Nonce",
+    bytes: GENERIC_PAYLOAD_HDR_SIZE + NONCE_SIZE,
+  };
+  // Name, unencrypted payloads and payloads protected by the SK payload
+  const messages: [string, PacketDetail[], PacketDetail[] | null][] = [
+    [
+      "IKE_SA_INIT request",
+      [
+        buildSaPayload(settings, false),
+        buildKePayload(settings.keyExchange, true),
+        nonce,
+        ...buildInitNotifications(settings),
+      ],
+      null,
+    ],
+    [
+      "IKE_SA_INIT response",
+      [
+        buildSaPayload(settings, false),
+        buildKePayload(settings.keyExchange, false),
+        nonce,
+        ...buildCertReqPayload(settings),
+        ...buildInitNotifications(settings),
+      ],
+      null,
+    ],
+  ];
+  settings.additionalKeyExchanges.forEach((keyExchange, index) => {
+    const name = `IKE_INTERMEDIATE ${index + 1}`;
+    messages.push(
+      [`${name} request`, [], [buildKePayload(keyExchange, true)]],
+      [`${name} response`, [], [buildKePayload(keyExchange, false)]]
+    );
+  });
+  messages.push(
+    [
+      "IKE_AUTH request",
+      [],
+      [
+        ...buildIdentityPayloads(settings, "i"),
+        ...buildCertReqPayload(settings),
+        ...buildConfigPayload(settings, false),
+        { text: "N(INITIAL_CONTACT)", bytes: NOTIFY_HDR_SIZE },
+        ...buildChildSaPayloads(settings),
+      ],
+    ],
+    [
+      "IKE_AUTH response",
+      [],
+      [
+        ...buildIdentityPayloads(settings, "r"),
+        ...buildConfigPayload(settings, true),
+        ...buildChildSaPayloads(settings),
+      ],
+    ]
+  );
+
+  return messages.map(([name, payloads, protectedPayloads]) => {
+    const message = [
+      header,
+      ...payloads,
+      ...(protectedPayloads ? encrypt(settings, protectedPayloads) : []),
+    ];
+    const plaintext = protectedPayloads ? sumBytes(protectedPayloads) : null;
+    return {
+      name,
+      payloads: message,
+      size: sumBytes(message),
+      direct: transmit(settings, message, plaintext, pathMtu, 0),
+      natTraversal: transmit(
+        settings,
+        message,
+        plaintext,
+        pathMtu,
+        NON_ESP_MARKER_SIZE
+      ),
+    };
+  });
+}
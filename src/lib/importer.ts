@@ -0,0 +1,369 @@
+import { cloneForm } from "./constants";
+import {
+  AlgorithmNames,
+  ahIntegrityNames,
+  espEncryptionNames,
+  espIntegrityNames,
+} from "./config";
+import { withPaddingPolicy } from "./padding";
+import { IFormState, IPVersion, PaddingPolicy } from "./types";
+
+export type ImportFormat =
+  | "Cisco transform-set"
+  | "Cisco show crypto ipsec sa"
+  | "strongSwan proposal"
+  | "Linux ip xfrm state";
+
+/** Form parsed from pasted configuration or CLI output. */
+export interface ImportResult {
+  // Format the text was recognised as, `null` if none matched
+  format: ImportFormat | null;
+  form: IFormState;
+  // Parts of the text that could not be mapped to the form
+  unmapped: string[];
+}
+
+type TransformField = "espEncr" | "espInte" | "ahInte";
+
+/** Algorithm selected by a platform keyword. */
+interface Algorithm {
+  field: TransformField;
+  name: string;
+}
+
+/** Maps the platform names of a table back to the algorithms. */
+function reverseNames<T extends string>(
+  field: TransformField,
+  table: AlgorithmNames<T>,
+  nameOf: (names: AlgorithmNames<T>[Exclude<T, "None">]) => string | null
+) {
+  const names = new Map<string, Algorithm>();
+  for (const [name, platformNames] of Object.entries(table)) {
+    const platformName = nameOf(
+      platformNames as AlgorithmNames<T>[Exclude<T, "None">]
+    );
+    // The first table entry wins when several algorithms share a name
+    if (platformName && !names.has(platformName)) {
+      names.set(platformName, { field, name });
+    }
+  }
+  return names;
+}
+
+/** Cisco keywords without the key size, e.g. `esp-aes`. */
+const ciscoNames = new Map<string, Algorithm>([
+  ...reverseNames("espEncr", espEncryptionNames, (names) =>
+    names.cisco ? names.cisco.split(" ")[0] : null
+  ),
+  ...reverseNames("espInte", espIntegrityNames, (names) =>
+    names.cisco ? names.cisco.split(" ")[0] : null
+  ),
+  ...reverseNames("ahInte", ahIntegrityNames, (names) => names.cisco),
+  ["esp-des", { field: "espEncr", name: "ESP-DES/3DES" }],
+]);
+
+const strongSwanEspNames = new Map<string, Algorithm>([
+  ...reverseNames("espEncr", espEncryptionNames, (names) => names.strongswan),
+  ...reverseNames("espInte", espIntegrityNames, (names) => names.strongswan),
+  ["des", { field: "espEncr", name: "ESP-DES/3DES" }],
+  ["sha", { field: "espInte", name: "ESP-SHA-HMAC" }],
+]);
+
+const strongSwanAhNames = reverseNames(
+  "ahInte",
+  ahIntegrityNames,
+  (names) => names.strongswan
+);
+
+/** Kernel crypto API names. HMAC-SHA-256 truncated to 96 bits is mapped separately. */
+const linuxEspNames = new Map<string, Algorithm>([
+  ...reverseNames("espEncr", espEncryptionNames, (names) =>
+    names.linux ? names.linux.name : null
+  ),
+  ...reverseNames("espInte", espIntegrityNames, (names) =>
+    names.linux ? names.linux.name : null
+  ),
+  ["cbc(des)", { field: "espEncr", name: "ESP-DES/3DES" }],
+  ["cipher_null", { field: "espEncr", name: "ESP-NULL" }],
+]);
+
+const linuxAhNames = reverseNames("ahInte", ahIntegrityNames, (names) =>
+  names.linux ? names.linux.name : null
+);
+
+/** strongSwan keywords that only affect IKE, not the ESP or AH packet. */
+const IKE_ONLY_KEYWORD =
+  /^(prf\w+|modp\d+\w*|ecp\d+\w*|ecp\d+bp|curve\d+|x25519|x448|mlkem\d+|ke\d_\w+|ntru\w+|newhope\w*)$/;
+
+/** Returns the family of an IPv4 or IPv6 address. */
+const familyOf = (address: string): IPVersion =>
+  address.includes(":") ? "IPv6" : "IPv4";
+
+/** Applies the family of the IPsec peer addresses to the outermost header. */
+export function setOuterFamily(form: IFormState, family: IPVersion) {
+  if (
+    form.transform.tunnelMode === "Transport" &&
+    form.tunnelSetting.overlay === "None"
+  ) {
+    form.innerProtocol = family;
+    return;
+  }
+  form.transport.ipProtocol = family;
+  form.tunnelSetting.deliveryProtocol = family;
+}
+
+/**
+ * Returns a copy of `base` without any algorithm selected, padded the way
+ * the platform the text came from pads ESP.
+ */
+function clearTransform(base: IFormState, policy: PaddingPolicy) {
+  const form = cloneForm(base);
+  form.padding = withPaddingPolicy(form.padding, policy);
+  form.transform.ahInte = "None";
+  form.transform.espEncr = "None";
+  form.transform.espInte = "None";
+  form.transform.icvLength = 16;
+  return form;
+}
+
+function setAlgorithm(form: IFormState, algorithm: Algorithm) {
+  // Table keys are the form's own algorithm names
+  Object.assign(form.transform, { [algorithm.field]: algorithm.name });
+}
+
+/** Maps Cisco transform keywords, e.g. `esp-gcm 256 esp-sha-hmac`. */
+function parseCiscoTransforms(
+  form: IFormState,
+  words: string[],
+  unmapped: string[]
+) {
+  for (const word of words) {
+    // Key sizes follow their keyword and do not change the overhead
+    if (/^\d+$/.test(word) || word === ",") {
+      continue;
+    }
+    // `show crypto ipsec sa` names AES with its key size, e.g. esp-256-aes
+    const keyword = word.replace(/^esp-\d+-aes$/, "esp-aes");
+    const algorithm = ciscoNames.get(keyword);
+    if (algorithm) {
+      setAlgorithm(form, algorithm);
+    } else {
+      unmapped.push(`Transform "${word}"`);
+    }
+  }
+}
+
+function importCiscoTransformSet(text: string, base: IFormState) {
+  const form = clearTransform(base, "Cisco IOS/IOS-XE");
+  const unmapped: string[] = [];
+  form.transform.tunnelMode = "Tunnel";
+  for (const line of text.split("\n").map((line) => line.trim())) {
+    const transformSet = line.match(/^crypto ipsec transform-set \S+ (.*)$/);
+    const mode = line.match(/^mode (tunnel|transport)\b/);
+    if (transformSet) {
+      parseCiscoTransforms(form, transformSet[1].split(/\s+/), unmapped);
+    } else if (mode) {
+      form.transform.tunnelMode = mode[1] === "tunnel" ? "Tunnel" : "Transport";
+    } else if (line && line !== "!") {
+      unmapped.push(`Line "${line}"`);
+    }
+  }
+  return { form, unmapped };
+}
+
+function importCiscoShowSa(text: string, base: IFormState) {
+  const form = clearTransform(base, "Cisco IOS/IOS-XE");
+  const unmapped: string[] = [];
+  const transform = text.match(/transform: ([^\n]*)/);
+  if (transform) {
+    parseCiscoTransforms(
+      form,
+      transform[1].replace(/,/g, " ").trim().split(/\s+/),
+      unmapped
+    );
+  } else {
+    unmapped.push("No transform was found in the security associations.");
+  }
+  const settings = text.match(/in use settings\s*=\s*\{([^}]*)\}/);
+  if (settings) {
+    form.transform.tunnelMode = /transport/i.test(settings[1])
+      ? "Transport"
+      : "Tunnel";
+    form.transport.natTraver = /UDP-Encaps/i.test(settings[1]);
+    form.transport.tcpEncap = false;
+  }
+  // Protocol 47 in the proxy identities means GRE is being protected
+  const ident = text.match(
+    /local\s+ident \(addr\/mask\/prot\/port\): \(([^)]*)\)/
+  );
+  if (ident) {
+    const prot = ident[1].split("/").slice(-2)[0];
+    form.tunnelSetting.overlay = prot === "47" ? "GRE" : "None";
+  }
+  const endpoint = text.match(/local crypto endpt\.: ([0-9A-Fa-f.:]+)/);
+  if (endpoint) {
+    setOuterFamily(form, familyOf(endpoint[1]));
+  }
+  return { form, unmapped };
+}
+
+function importStrongSwanProposal(text: string, base: IFormState) {
+  const form = clearTransform(base, "Linux/strongSwan");
+  const unmapped: string[] = [];
+  const setting = text.trim().match(/^(?:(esp|ah)_proposals\s*=\s*)?(.*)$/);
+  const ah = setting?.[1] === "ah";
+  const [proposal, ...others] = (setting?.[2] ?? "").split(",");
+  if (others.length > 0) {
+    unmapped.push(
+      `Only the first proposal was imported, not ${others
+        .map((other) => `"${other.trim()}"`)
+        .join(", ")}`
+    );
+  }
+  for (const keyword of proposal.trim().split("-")) {
+    // Key sizes do not change the overhead, the ICV length of GCM and CCM does
+    const aead = keyword.match(/^aes(?:128|192|256)?(gcm|ccm)(\d+)?$/);
+    const normalised = keyword
+      .replace(/^aes(128|192)?$/, "aes256")
+      .replace(/^aes(128|192)?(ctr|gmac)$/, "aes256$2")
+      .replace(/^sha2_/, "sha");
+    const algorithm = aead
+      ? strongSwanEspNames.get(`aes256${aead[1]}`)
+      : (ah ? strongSwanAhNames : strongSwanEspNames).get(normalised);
+    if (algorithm && !(ah && algorithm.field !== "ahInte")) {
+      setAlgorithm(form, algorithm);
+      if (aead) {
+        // ICV lengths are given in bytes (gcm16) or bits (gcm128)
+        const icv = parseInt(aead[2] ?? "16");
+        form.transform.icvLength = icv > 16 ? icv / 8 : icv;
+      }
+    } else if (IKE_ONLY_KEYWORD.test(keyword)) {
+      unmapped.push(`"${keyword}" (IKE only, does not change the packet)`);
+    } else if (keyword !== "esn" && keyword !== "noesn") {
+      unmapped.push(`Algorithm "${keyword}"`);
+    }
+  }
+  return { form, unmapped };
+}
+
+function importLinuxXfrmState(text: string, base: IFormState) {
+  const form = clearTransform(base, "Linux/strongSwan");
+  const unmapped: string[] = [];
+  // Each state starts with its addresses; only the first ESP and AH are used
+  const states = text
+    .split(/^(?=src \S+ dst \S+)/m)
+    .filter((state) => /^src \S+ dst \S+/.test(state));
+  const seen = new Set<string>();
+  let skipped = 0;
+  for (const state of states) {
+    const proto = state.match(/proto (esp|ah|comp)\b/)?.[1] ?? "";
+    if (proto === "comp") {
+      unmapped.push("IPComp state");
+      continue;
+    }
+    if (!proto || seen.has(proto)) {
+      skipped++;
+      continue;
+    }
+    seen.add(proto);
+    const names = proto === "esp" ? linuxEspNames : linuxAhNames;
+
+    const addresses = state.match(/^src (\S+) dst (\S+)/);
+    const mode = state.match(/\bmode (tunnel|transport|beet)\b/)?.[1];
+    if (mode === "beet") {
+      unmapped.push("BEET mode");
+    } else if (mode) {
+      form.transform.tunnelMode = mode === "tunnel" ? "Tunnel" : "Transport";
+    }
+    const selector = state.match(/\bsel src \S+ dst \S+(?: .*?proto (\S+))?/);
+    if (selector) {
+      const gre = selector[1] === "gre" || selector[1] === "47";
+      form.tunnelSetting.overlay = gre ? "GRE" : "None";
+    }
+    if (addresses) {
+      setOuterFamily(form, familyOf(addresses[1]));
+    }
+    const encap = state.match(/\bencap type (espinudp|espintcp)/)?.[1];
+    if (encap) {
+      form.transport.natTraver = encap === "espinudp";
+      form.transport.tcpEncap = encap === "espintcp";
+    }
+    const tfc = state.match(/\btfcpad (\d+)/);
+    if (tfc) {
+      form.padding.tfcTarget = parseInt(tfc[1]);
+    }
+
+    const algorithms = state.matchAll(
+      /^\s*(enc|auth|auth-trunc|aead) '?([^\s']+)'? \S+(?: (\d+))?/gm
+    );
+    for (const [, kind, name, bits] of algorithms) {
+      const algorithm =
+        kind === "auth-trunc" && name === "hmac(sha256)" && bits === "96"
+          ? { field: "espInte" as const, name: "ESP-SHA-256-96" }
+          : names.get(name);
+      if (!algorithm || (proto === "ah" && algorithm.field !== "ahInte")) {
+        unmapped.push(`${proto.toUpperCase()} algorithm "${name}"`);
+        continue;
+      }
+      setAlgorithm(form, algorithm);
+      if (kind === "aead" && algorithm.field === "espEncr" && bits) {
+        form.transform.icvLength = parseInt(bits) / 8;
+      }
+    }
+  }
+  if (skipped > 0) {
+    unmapped.push(
+      `${skipped} further state${skipped > 1 ? "s were" : " was"} not imported`
+    );
+  }
+  return { form, unmapped };
+}
+
+/** Recognises the format of pasted text. */
+function detectFormat(text: string): ImportFormat | null {
+  if (/in use settings|crypto endpt|inbound esp sas/.test(text)) {
+    return "Cisco show crypto ipsec sa";
+  }
+  if (/^\s*crypto ipsec transform-set /m.test(text)) {
+    return "Cisco transform-set";
+  }
+  if (/^src \S+ dst \S+/m.test(text) && /proto (esp|ah|comp)\b/.test(text)) {
+    return "Linux ip xfrm state";
+  }
+  if (
+    /^((esp|ah)_proposals\s*=\s*)?[a-z0-9_]+(-[a-z0-9_]+)*(\s*,\s*[a-z0-9_]+(-[a-z0-9_]+)*)*$/.test(
+      text.trim()
+    )
+  ) {
+    return "strongSwan proposal";
+  }
+  return null;
+}
+
+/**
+ * Parses pasted configuration or CLI output into a form. The transform and
+ * padding policy are taken from the text; settings the text does not mention
+ * keep their value from `base`. The form is not validated.
+ */
+export function importConfig(text: string, base: IFormState): ImportResult {
+  const normalised = text.replace(/\r/g, "");
+  const format = detectFormat(normalised);
+  switch (format) {
+    case "Cisco transform-set":
+      return { format, ...importCiscoTransformSet(normalised, base) };
+    case "Cisco show crypto ipsec sa":
+      return { format, ...importCiscoShowSa(normalised, base) };
+    case "strongSwan proposal":
+      return { format, ...importStrongSwanProposal(normalised, base) };
+    case "Linux ip xfrm state":
+      return { format, ...importLinuxXfrmState(normalised, base) };
+    case null:
+      return {
+        format,
+        form: cloneForm(base),
+        unmapped: [
+          "The text is not a Cisco transform-set, show crypto ipsec sa output, strongSwan proposal or ip xfrm state dump.",
+        ],
+      };
+  }
+}
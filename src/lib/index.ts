@@ -0,0 +1,35 @@
+/**
+ * IPsec overhead calculator engine.
+ *
+ * This module has no React or DOM dependency and can be imported by any
+ * consumer, e.g. provisioning scripts or dashboards:
+ *
+ *   const error = validateForm(form);
+ *   const { totalSize, overhead, overheadPercent } = calculatePacket(form);
+ */
+export * from "./types";
+export * from "./algorithms";
+export * from "./constants";
+export * from "./inner";
+export * from "./calculate";
+export * from "./framing";
+export * from "./padding";
+export * from "./overlay";
+export * from "./stack";
+export * from "./mtu";
+export * from "./fragment";
+export * from "./path";
+export * from "./validate";
+export * from "./sweep";
+export * from "./compare";
+export * from "./library";
+export * from "./permalink";
+export * from "./export";
+export * from "./diagram";
+export * from "./config";
+export * from "./importer";
+export * from "./capture";
+export * from "./budget";
+export * from "./iptfs";
+export * from "./vpn";
+export * from "./ike";
@@ -0,0 +1,160 @@
+import {
+  ipHeaderSizeOf,
+  sumBytes,
+  TCP_HDR_SIZE,
+  UDP_HDR_SIZE,
+} from "./constants";
+import { InnerSettings, IPVersion, PacketDetail } from "./types";
+
+/** Largest IPv4 options field. */
+export const MAX_IPV4_OPTIONS = 40;
+/** Largest TCP options field. */
+export const MAX_TCP_OPTIONS = 40;
+/** Largest IPv6 Hop-by-Hop or Destination Options header. */
+export const MAX_IPV6_OPTIONS_HDR = 2048;
+/** Most segments an IPv6 Segment Routing Header can list. */
+export const MAX_SRH_SEGMENTS = 127;
+/** Most SACK blocks a TCP segment can carry. */
+export const MAX_SACK_BLOCKS = 4;
+
+const ICMP_HDR_SIZE = 8;
+
+/** Returns the TCP options, padded to a multiple of 4 with NOP/EOL. */
+function buildTcpOptions(inner: InnerSettings) {
+  const options: PacketDetail[] = [];
+  if (inner.tcpTimestamps) {
+    options.push({ text: "TCP Timestamps", bytes: 10, group: "TCP Header" });
+  }
+  if (inner.tcpSackBlocks > 0) {
+    options.push({
+      text: `TCP SACK (${inner.tcpSackBlocks} blocks)`,
+      bytes: 2 + 8 * inner.tcpSackBlocks,
+      group: "TCP Header",
+    });
+  }
+  if (inner.tcpWindowScale) {
+    options.push({ text: "TCP Window Scale", bytes: 3, group: "TCP Header" });
+  }
+  const size = sumBytes(options);
+  if (size % 4 !== 0) {
+    options.push({
+      text: "TCP Option Padding",
+      bytes: 4 - (size % 4),
+      group: "TCP Header",
+    });
+  }
+  return options;
+}
+
+/** Returns the length of the TCP options, including their padding. */
+export function tcpOptionsSizeOf(inner: InnerSettings) {
+  return sumBytes(buildTcpOptions(inner));
+}
+
+/**
+ * Returns the headers of the inner packet, outermost first. Options and
+ * extension headers that stay in front of ESP and AH in transport mode are
+ * marked as `headerExtension`.
+ */
+export function buildInnerHeaders(
+  innerProtocol: IPVersion,
+  inner: InnerSettings
+) {
+  const headers: PacketDetail[] = [
+    {
+      bytes: ipHeaderSizeOf(innerProtocol),
+      text: `Original ${innerProtocol} Header`,
+    },
+  ];
+  if (innerProtocol === "IPv4" && inner.ipv4Options > 0) {
+    headers.push({
+      text: "IPv4 Options",
+      bytes: inner.ipv4Options,
+      headerExtension: true,
+    });
+  }
+  if (innerProtocol === "IPv6") {
+    if (inner.ipv6HopByHop > 0) {
+      headers.push({
+        text: "IPv6 Hop-by-Hop Options",
+        bytes: inner.ipv6HopByHop,
+        headerExtension: true,
+      });
+    }
+    if (inner.ipv6Segments > 0) {
+      headers.push({
+        text: "IPv6 Segment Routing Header",
+        bytes: 8 + 16 * inner.ipv6Segments,
+        headerExtension: true,
+      });
+    }
+    // Destination options for the final destination are protected by IPsec
+    if (inner.ipv6DestOptions > 0) {
+      headers.push({
+        text: "IPv6 Destination Options",
+        bytes: inner.ipv6DestOptions,
+      });
+    }
+  }
+  switch (inner.transport) {
+    case "TCP":
+      headers.push(
+        { text: "TCP Header", bytes: TCP_HDR_SIZE, group: "TCP Header" },
+        ...buildTcpOptions(inner)
+      );
+      break;
+    case "UDP":
+      headers.push({ text: "UDP Header", bytes: UDP_HDR_SIZE });
+      break;
+    case "ICMP":
+      headers.push({
+        text: innerProtocol === "IPv4" ? "ICMP Header" : "ICMPv6 Header",
+        bytes: ICMP_HDR_SIZE,
+      });
+      break;
+  }
+  return headers;
+}
+
+/** Returns the fields of the inner packet, outermost first. */
+export function buildInnerPacket(
+  packetSize: number,
+  innerProtocol: IPVersion,
+  inner: InnerSettings
+) {
+  const headers = buildInnerHeaders(innerProtocol, inner);
+  return [
+    ...headers,
+    {
+      bytes: packetSize - sumBytes(headers),
+      // Without a transport header the payload is left opaque
+      text:
+        inner.transport === "None"
+          ? `Original ${innerProtocol} Payload`
+          : "Application Data",
+    },
+  ];
+}
+
+/** Returns the smallest inner packet that carries all selected headers. */
+export function minPacketSizeOf(
+  innerProtocol: IPVersion,
+  inner: InnerSettings
+) {
+  return Math.max(
+    ipHeaderSizeOf(innerProtocol) + 8,
+    sumBytes(buildInnerHeaders(innerProtocol, inner))
+  );
+}
+
+/**
+ * Splits the IP header at the front of a packet, together with the options
+ * and extension headers that extend it, from the rest of the packet.
+ */
+export function splitOuterHeader(fields: PacketDetail[]) {
+  let end = 1;
+  while (end < fields.length && fields[end].headerExtension) {
+    end++;
+  }
+  return [fields.slice(0, end), fields.slice(end)];
+}
@@ -0,0 +1,189 @@
+import { TrafficClass, TrafficProfile } from "./budget";
+import { calculatePacket } from "./calculate";
+import { IFormState } from "./types";
+import { validateForm } from "./validate";
+
+/** IP-TFS header of a basic payload (RFC 9347 subtype 0). */
+export const IPTFS_HDR_SIZE = 4;
+/** IP-TFS header with congestion control information (subtype 1). */
+export const IPTFS_CC_HDR_SIZE = 24;
+
+/** Settings of an IP-TFS tunnel. */
+export interface IptfsSettings {
+  // Size of every outer IP packet, from the outer IP header to the ESP ICV
+  outerSize: number;
+  // Send congestion control headers (subtype 1) instead of basic ones
+  congestionControl: boolean;
+}
+
+/** IP-TFS result for one inner packet size. */
+export interface IptfsClassResult {
+  trafficClass: TrafficClass;
+  // Share of the inner packets that have this size, in percent
+  share: number;
+  // Outer packet data bytes used by one inner packet, as a share of an
+  // outer packet
+  outerPackets: number;
+  // Chance that a packet is split over two or more outer packets, in percent
+  fragmentedPercent: number;
+  // Bytes sent on top of the inner packet with IP-TFS
+  overhead: number;
+  // Bytes sent on top of the inner packet with one ESP packet per packet
+  espOverhead: number;
+}
+
+/** Aggregation of a packet size distribution into fixed size outer packets. */
+export interface IptfsResult {
+  // ESP payload of an outer packet, IP-TFS header included
+  payloadSize: number;
+  // Room for inner packets behind the IP-TFS header
+  dataSize: number;
+  // Mean inner packet size of the distribution
+  meanPacketSize: number;
+  // Inner packets carried by one outer packet on average
+  innerPacketsPerOuter: number;
+  // Share of an outer packet carrying inner packets, in percent
+  fillEfficiency: number;
+  // Mean bytes sent on top of each inner packet, and relative to its size
+  overhead: number;
+  overheadPercent: number;
+  // The same without IP-TFS, with one ESP packet per inner packet
+  espOverhead: number;
+  espOverheadPercent: number;
+  // Share of the inner packets split over outer packets, in percent
+  fragmentedPercent: number;
+  classes: IptfsClassResult[];
+}
+
+export const defaultIptfsSettings: IptfsSettings = {
+  outerSize: 1400,
+  congestionControl: false,
+};
+
+/**
+ * Returns the largest ESP payload that fits an outer packet of `outerSize`
+ * bytes with the transform of the form, or 0 when nothing fits.
+ */
+function payloadSizeOf(form: IFormState, outerSize: number) {
+  const totalSizeOf = (packetSize: number) =>
+    calculatePacket({ ...form, packetSize }).totalSize;
+  // ESP padding only grows with the payload, so start from the fixed
+  // overhead and step down until the packet fits
+  let payloadSize = outerSize - (totalSizeOf(outerSize) - outerSize);
+  while (payloadSize > 0 && totalSizeOf(payloadSize) > outerSize) {
+    payloadSize--;
+  }
+  while (totalSizeOf(payloadSize + 1) <= outerSize) {
+    payloadSize++;
+  }
+  return Math.max(payloadSize, 0);
+}
+
+function iptfsHeaderSizeOf(settings: IptfsSettings) {
+  return settings.congestionControl ? IPTFS_CC_HDR_SIZE : IPTFS_HDR_SIZE;
+}
+
+/**
+ * Checks a form, IP-TFS settings and inner packet size distribution.
+ * Returns an error message, or an empty string when they are valid.
+ */
+export function validateIptfs(
+  form: IFormState,
+  settings: IptfsSettings,
+  profile: TrafficProfile
+) {
+  if (form.transform.tunnelMode !== "Tunnel") {
+    return "IP-TFS is only defined for tunnel mode.";
+  }
+  if (form.transform.ahInte !== "None") {
+    return "IP-TFS is only defined for ESP. Please remove AH.";
+  }
+  if (form.tunnelSetting.overlay !== "None") {
+    return "IP-TFS carries the inner IP packets directly. Please remove the overlay.";
+  }
+  if (form.padding.tfcTarget > 0) {
+    return "IP-TFS pads the outer packets itself. Please turn off TFC padding.";
+  }
+  if (profile.classes.length === 0) {
+    return "Please add at least one packet size to the traffic profile";
+  }
+  for (const trafficClass of profile.classes) {
+    const error = validateForm({
+      ...form,
+      packetSize: trafficClass.packetSize,
+    });
+    if (error) {
+      return `${trafficClass.name}: ${error}`;
+    }
+    if (!(trafficClass.rate >= 0)) {
+      return `${trafficClass.name}: Please enter a weight of at least 0`;
+    }
+  }
+  if (profile.classes.every((trafficClass) => trafficClass.rate === 0)) {
+    return "At least one packet size needs a weight greater than 0";
+  }
+  if (
+    !(settings.outerSize <= 65535) ||
+    !Number.isInteger(settings.outerSize) ||
+    payloadSizeOf(form, settings.outerSize) <= iptfsHeaderSizeOf(settings)
+  ) {
+    return "Please enter an outer packet size that leaves room for IP-TFS data";
+  }
+  return "";
+}
+
+/**
+ * Calculates how a stream of inner packets is packed into outer packets of
+ * a fixed size. The tunnel is assumed to be saturated, so every outer packet
+ * is filled with data rather than padding. The rates of the profile are used
+ * as weights. The inputs are expected to pass `validateIptfs`.
+ */
+export function calculateIptfs(
+  form: IFormState,
+  settings: IptfsSettings,
+  profile: TrafficProfile
+): IptfsResult {
+  const payloadSize = payloadSizeOf(form, settings.outerSize);
+  const dataSize = payloadSize - iptfsHeaderSizeOf(settings);
+  // Each data byte carries its share of the outer packet's headers
+  const bytesPerDataByte = settings.outerSize / dataSize;
+  const weights = profile.classes.reduce(
+    (sum, trafficClass) => sum + trafficClass.rate,
+    0
+  );
+
+  const classes = profile.classes.map((trafficClass) => {
+    const { packetSize } = trafficClass;
+    return {
+      trafficClass,
+      share: (trafficClass.rate / weights) * 100,
+      outerPackets: packetSize / dataSize,
+      // A packet is split unless it starts early enough in an outer packet
+      fragmentedPercent: Math.min((packetSize - 1) / dataSize, 1) * 100,
+      overhead: packetSize * (bytesPerDataByte - 1),
+      espOverhead: calculatePacket({ ...form, packetSize }).overhead,
+    };
+  });
+  const mean = (value: (result: IptfsClassResult) => number) =>
+    classes.reduce(
+      (sum, result) => sum + (value(result) * result.share) / 100,
+      0
+    );
+
+  const meanPacketSize = mean((result) => result.trafficClass.packetSize);
+  const overhead = mean((result) => result.overhead);
+  const espOverhead = mean((result) => result.espOverhead);
+  return {
+    payloadSize,
+    dataSize,
+    meanPacketSize,
+    innerPacketsPerOuter: dataSize / meanPacketSize,
+    fillEfficiency: (dataSize / settings.outerSize) * 100,
+    overhead,
+    overheadPercent: (overhead / meanPacketSize) * 100,
+    espOverhead,
+    espOverheadPercent: (espOverhead / meanPacketSize) * 100,
+    fragmentedPercent: mean((result) => result.fragmentedPercent),
+    classes,
+  };
+}
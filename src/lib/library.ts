@@ -0,0 +1,265 @@
+import { Scenario } from "./compare";
+import {
+  ahHmacItems,
+  cloneForm,
+  defaultFormValues,
+  espEncrItems,
+  espHmacItems,
+  innerTransports,
+  ipVersions,
+  linkTypes,
+  overlayTypes,
+  paddingPolicies,
+  tunnelModes,
+} from "./constants";
+import { IFormState } from "./types";
+import { validateForm } from "./validate";
+
+/** Version written into new scenario library files. */
+export const LIBRARY_VERSION = 1;
+
+/** Marks a JSON file as a scenario library. */
+const LIBRARY_FORMAT = "ipsec-overhead-scenarios";
+
+/** A configuration saved in the scenario library. */
+export interface SavedScenario extends Scenario {
+  notes: string;
+  // ISO 8601 time the scenario was last saved
+  savedAt: string;
+}
+
+/** Result of reading a scenario library. */
+export interface LoadedLibrary {
+  // Scenarios whose configuration does not pass `validateForm` are kept,
+  // and reported in `messages`
+  scenarios: SavedScenario[];
+  // Stored scenarios that could not be read, kept as they were
+  unreadable: unknown[];
+  // Scenarios that were repaired, flagged or rejected while loading
+  messages: string[];
+}
+
+type StoredObject = { [key: string]: unknown };
+
+/**
+ * Upgrades a form stored by an older library version to the next version.
+ * Indexed by the version being upgraded from.
+ */
+const migrations: { [version: number]: (form: StoredObject) => void } = {};
+
+/** Settings with a fixed set of values, checked before `validateForm`. */
+const choiceSettings: [keyof IFormState, string, readonly string[]][] = [
+  ["innerProtocol", "", ipVersions],
+  ["inner", "transport", innerTransports],
+  ["transform", "ahInte", ahHmacItems],
+  ["transform", "espEncr", espEncrItems],
+  ["transform", "espInte", espHmacItems],
+  ["transform", "tunnelMode", tunnelModes],
+  ["transport", "ipProtocol", ipVersions],
+  ["tunnelSetting", "overlay", overlayTypes],
+  ["tunnelSetting", "deliveryProtocol", ipVersions],
+  ["underlay", "linkType", linkTypes],
+  ["padding", "policy", paddingPolicies],
+];
+
+function isObject(value: unknown): value is StoredObject {
+  return value !== null && typeof value === "object" && !Array.isArray(value);
+}
+
+/**
+ * Returns why a stored form does not have the shape of `IFormState`: a
+ * setting of the wrong type or an unknown choice. Returns an empty string
+ * when it has.
+ */
+function shapeErrorOf(form: StoredObject) {
+  for (const [key, fallback] of Object.entries(defaultFormValues)) {
+    const value = form[key];
+    if (!isObject(fallback)) {
+      if (typeof value !== typeof fallback) {
+        return `"${key}" must be a ${typeof fallback}`;
+      }
+      continue;
+    }
+    if (!isObject(value)) {
+      return `"${key}" must be an object`;
+    }
+    for (const [name, defaultValue] of Object.entries(fallback)) {
+      if (typeof value[name] !== typeof defaultValue) {
+        return `"${key}.${name}" must be a ${typeof defaultValue}`;
+      }
+    }
+  }
+  for (const [key, name, items] of choiceSettings) {
+    const section = form[key];
+    const value = name ? isObject(section) && section[name] : section;
+    if (!items.includes(value as string)) {
+      return `unknown ${name || key} "${value}"`;
+    }
+  }
+  return "";
+}
+
+const isFormState = (form: StoredObject): form is StoredObject & IFormState =>
+  shapeErrorOf(form) === "";
+
+/**
+ * Upgrades a stored form to the current schema. Settings that did not exist
+ * when the form was saved get their default, settings that no longer exist
+ * are dropped. Returns an error for values of the wrong type.
+ */
+function migrateForm(stored: unknown, version: number): IFormState | string {
+  if (!isObject(stored)) {
+    return "the configuration is missing";
+  }
+  for (; version < LIBRARY_VERSION; version++) {
+    migrations[version]?.(stored);
+  }
+  const form: StoredObject = {};
+  for (const [key, fallback] of Object.entries(cloneForm(defaultFormValues))) {
+    const value = stored[key];
+    if (isObject(fallback) && isObject(value)) {
+      form[key] = Object.fromEntries(
+        Object.entries(fallback).map(([name, defaultValue]) => [
+          name,
+          value[name] ?? defaultValue,
+        ])
+      );
+    } else {
+      form[key] = value ?? fallback;
+    }
+  }
+  return isFormState(form) ? form : shapeErrorOf(form);
+}
+
+/**
+ * Reads a scenario from a library file of the given version. Returns an
+ * error message when the scenario is malformed.
+ */
+function readScenario(
+  stored: unknown,
+  version: number
+): SavedScenario | string {
+  if (!isObject(stored) || typeof stored.name !== "string") {
+    return "A scenario without a name was skipped.";
+  }
+  const form = migrateForm(stored.form, version);
+  if (typeof form === "string") {
+    return `"${stored.name}" was not loaded: ${form}`;
+  }
+  return {
+    name: stored.name,
+    notes: typeof stored.notes === "string" ? stored.notes : "",
+    savedAt: typeof stored.savedAt === "string" ? stored.savedAt : "",
+    form,
+  };
+}
+
+/**
+ * Parses a scenario library from JSON. A JSON summary exported with
+ * `resultToJson` is read as a library with a single scenario.
+ */
+export function parseLibrary(json: string): LoadedLibrary {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    return {
+      scenarios: [],
+      unreadable: [],
+      messages: ["The file is not valid JSON."],
+    };
+  }
+  if (isObject(data) && data.format !== LIBRARY_FORMAT && "config" in data) {
+    data = {
+      format: LIBRARY_FORMAT,
+      version: LIBRARY_VERSION,
+      scenarios: [
+        { name: "Imported configuration", notes: "", form: data.config },
+      ],
+    };
+  }
+  if (
+    !isObject(data) ||
+    data.format !== LIBRARY_FORMAT ||
+    !Array.isArray(data.scenarios)
+  ) {
+    return {
+      scenarios: [],
+      unreadable: [],
+      messages: ["The file is not a scenario library."],
+    };
+  }
+
+  const messages: string[] = [];
+  const version =
+    typeof data.version === "number" && data.version >= 1 ? data.version : 1;
+  if (version > LIBRARY_VERSION) {
+    messages.push(
+      "This library was created by a newer version of the calculator. Settings it does not know about were ignored."
+    );
+  }
+  const scenarios: SavedScenario[] = [];
+  const unreadable: unknown[] = [];
+  for (const stored of data.scenarios) {
+    const scenario = readScenario(stored, version);
+    if (typeof scenario === "string") {
+      messages.push(scenario);
+      unreadable.push(stored);
+      continue;
+    }
+    const error = validateForm(scenario.form);
+    if (error) {
+      messages.push(
+        `"${scenario.name}" can not be loaded until it is fixed: ${error}`
+      );
+    }
+    scenarios.push(scenario);
+  }
+  return { scenarios, unreadable, messages };
+}
+
+/**
+ * Formats scenarios as a versioned library file. Stored scenarios that could
+ * not be read are written back after them unchanged.
+ */
+export function libraryToJson(
+  scenarios: SavedScenario[],
+  unreadable: unknown[] = []
+) {
+  return (
+    JSON.stringify(
+      {
+        format: LIBRARY_FORMAT,
+        version: LIBRARY_VERSION,
+        scenarios: [...scenarios, ...unreadable],
+      },
+      null,
+      2
+    ) + "\n"
+  );
+}
+
+/**
+ * Adds a scenario to a library, replacing a scenario of the same name.
+ * Returns the new list of scenarios.
+ */
+export function saveScenario(
+  scenarios: SavedScenario[],
+  scenario: SavedScenario
+) {
+  const index = scenarios.findIndex(({ name }) => name === scenario.name);
+  if (index < 0) {
+    return [...scenarios, scenario];
+  }
+  return scenarios.map((saved, i) => (i === index ? scenario : saved));
+}
+
+/** Returns a name for a copy of a scenario that is not used in the library. */
+export function copyNameOf(scenarios: SavedScenario[], name: string) {
+  const names = new Set(scenarios.map((scenario) => scenario.name));
+  let copy = `${name} (copy)`;
+  for (let count = 2; names.has(copy); count++) {
+    copy = `${name} (copy ${count})`;
+  }
+  return copy;
+}
@@ -0,0 +1,73 @@
+import { calculatePacket } from "./calculate";
+import { IPV4_HDR_SIZE, IPV6_HDR_SIZE, TCP_HDR_SIZE } from "./constants";
+import { minPacketSizeOf } from "./inner";
+import { IFormState } from "./types";
+
+/** Tunnel settings recommended for a given underlay MTU. */
+export interface MtuRecommendation {
+  // Underlay MTU the recommendation was calculated for
+  pathMtu: number;
+  // Largest inner packet that fits without fragmentation (tunnel `ip mtu`)
+  maxInnerSize: number;
+  // Size of the encrypted packet carrying the largest inner packet
+  encryptedSize: number;
+  // Bytes left unused between the encrypted packet and the path MTU
+  headroom: number;
+  // `ip tcp adjust-mss` value for IPv4 traffic
+  tcpMssIPv4: number;
+  // `ipv6 tcp adjust-mss` value for IPv6 traffic
+  tcpMssIPv6: number;
+}
+
+/**
+ * Finds the largest inner packet size whose encrypted packet still fits in
+ * `pathMtu`. ESP padding rounds up to the cipher block size, so the encrypted
+ * size grows in steps and the answer is searched for rather than subtracted.
+ * Returns `null` if not even the smallest inner packet fits.
+ */
+export function findMaxInnerSize(form: IFormState, pathMtu: number) {
+  const sizeOf = (packetSize: number) =>
+    calculatePacket({ ...form, packetSize }).totalSize;
+
+  // The encrypted size never shrinks as the inner packet grows
+  let low = minPacketSizeOf(form.innerProtocol, form.inner);
+  let high = pathMtu;
+  if (sizeOf(low) > pathMtu) {
+    return null;
+  }
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if (sizeOf(mid) <= pathMtu) {
+      low = mid;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return low;
+}
+
+/**
+ * Recommends the tunnel `ip mtu` and TCP MSS values for an underlay MTU.
+ * Returns `null` if the transform does not fit in `pathMtu` at all.
+ */
+export function recommendMtu(
+  form: IFormState,
+  pathMtu: number
+): MtuRecommendation | null {
+  const maxInnerSize = findMaxInnerSize(form, pathMtu);
+  if (maxInnerSize === null) {
+    return null;
+  }
+  const encryptedSize = calculatePacket({
+    ...form,
+    packetSize: maxInnerSize,
+  }).totalSize;
+  return {
+    pathMtu,
+    maxInnerSize,
+    encryptedSize,
+    headroom: pathMtu - encryptedSize,
+    tcpMssIPv4: Math.max(maxInnerSize - IPV4_HDR_SIZE - TCP_HDR_SIZE, 0),
+    tcpMssIPv6: Math.max(maxInnerSize - IPV6_HDR_SIZE - TCP_HDR_SIZE, 0),
+  };
+}
@@ -0,0 +1,93 @@
+import { UDP_HDR_SIZE } from "./constants";
+import { OverlaySettings, OverlayType, PacketDetail } from "./types";
+
+/** Largest GENEVE option length (6-bit field in 4-byte words). */
+export const MAX_GENEVE_OPTIONS = 252;
+/** Ethernet header of a frame carried inside an overlay (no FCS). */
+export const INNER_ETH_HDR_SIZE = 14;
+
+/** Properties of an overlay encapsulation. */
+export interface OverlaySpec {
+  // Whether the overlay carries an Ethernet frame with the given settings
+  carriesL2: (settings: OverlaySettings) => boolean;
+  // Defining RFC
+  rfc: string;
+}
+
+export const overlaySpecs: {
+  [name in Exclude<OverlayType, "None">]: OverlaySpec;
+} = {
+  GRE: { carriesL2: () => false, rfc: "RFC 2784/2890" },
+  VXLAN: { carriesL2: () => true, rfc: "RFC 7348" },
+  GENEVE: {
+    carriesL2: (settings) => settings.geneveEthernet,
+    rfc: "RFC 8926",
+  },
+  L2TPv3: { carriesL2: () => true, rfc: "RFC 3931/4719" },
+  "IP-in-IP": { carriesL2: () => false, rfc: "RFC 2003/2473" },
+};
+
+/** Returns the spec of an overlay, or `null` for "None". */
+export function overlaySpecOf(overlay: OverlayType) {
+  return overlay === "None" ? null : overlaySpecs[overlay];
+}
+
+/**
+ * Returns the fields an overlay adds between its delivery IP header and the
+ * original IP packet, including the Ethernet header of carried L2 frames.
+ */
+export function buildOverlayHeader(settings: OverlaySettings): PacketDetail[] {
+  const fields: PacketDetail[] = [];
+  switch (settings.overlay) {
+    case "GRE":
+      fields.push({
+        text: "Flags/Version/Protocol",
+        bytes: 4,
+        group: "GRE Header",
+      });
+      if (settings.greChecksum) {
+        fields.push({ text: "Checksum", bytes: 4, group: "GRE Header" });
+      }
+      if (settings.greKey) {
+        fields.push({ text: "Tunnel Key", bytes: 4, group: "GRE Header" });
+      }
+      if (settings.greSequence) {
+        fields.push({ text: "Sequence", bytes: 4, group: "GRE Header" });
+      }
+      break;
+    case "VXLAN":
+      fields.push(
+        { text: "UDP Header (VXLAN)", bytes: UDP_HDR_SIZE },
+        { text: "VXLAN Header", bytes: 8 }
+      );
+      break;
+    case "GENEVE":
+      fields.push(
+        { text: "UDP Header (GENEVE)", bytes: UDP_HDR_SIZE },
+        { text: "Base Header", bytes: 8, group: "GENEVE Header" }
+      );
+      if (settings.geneveOptions > 0) {
+        fields.push({
+          text: "Options",
+          bytes: settings.geneveOptions,
+          group: "GENEVE Header",
+        });
+      }
+      break;
+    case "L2TPv3":
+      // L2TPv3 over IP (protocol 115), Ethernet pseudowire
+      fields.push({ text: "Session ID", bytes: 4, group: "L2TPv3 Header" });
+      if (settings.l2tpCookie > 0) {
+        fields.push({
+          text: "Cookie",
+          bytes: settings.l2tpCookie,
+          group: "L2TPv3 Header",
+        });
+      }
+      break;
+  }
+  if (overlaySpecOf(settings.overlay)?.carriesL2(settings)) {
+    fields.push({ text: "Inner Ethernet Header", bytes: INNER_ETH_HDR_SIZE });
+  }
+  return fields;
+}
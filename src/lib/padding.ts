@@ -0,0 +1,116 @@
+import { PaddingPolicy, PaddingSettings } from "./types";
+
+/** Largest ESP pad, limited by the 1-byte Pad Length field. */
+export const MAX_ESP_PAD = 255;
+
+/**
+ * Returns the alignment of the ESP payload and trailer for a cipher of the
+ * given block size: the block size, at least 4 bytes (RFC 4303 section 2.4).
+ */
+export function espAlignmentOf(blockSize: number) {
+  return Math.ceil(blockSize / 4) * 4;
+}
+
+/**
+ * How an implementation pads the ESP payload and trailer. Every policy aligns
+ * to `espAlignmentOf`; they differ in the padding that can be added on top.
+ */
+export interface PaddingPolicySpec {
+  // Whether extra padding beyond the minimum can be configured
+  supportsExtraPadding: boolean;
+  // Whether the implementation can add TFC padding
+  supportsTfc: boolean;
+  description: string;
+}
+
+export const paddingPolicySpecs: {
+  [name in PaddingPolicy]: PaddingPolicySpec;
+} = {
+  "Cisco IOS/IOS-XE": {
+    supportsExtraPadding: false,
+    supportsTfc: false,
+    description:
+      "Pads to the cipher block size (4 bytes for CTR, combined mode and NULL) and adds no other padding.",
+  },
+  "Linux/strongSwan": {
+    supportsExtraPadding: false,
+    supportsTfc: true,
+    description:
+      "XFRM pads to the cipher block size rounded up to 4 bytes. TFC padding is set with the strongSwan tfc option; extra padding can not be configured.",
+  },
+  "Palo Alto PAN-OS": {
+    supportsExtraPadding: false,
+    supportsTfc: false,
+    description:
+      "Pads to the cipher block size rounded up to 4 bytes. PAN-OS has no setting for TFC or extra padding.",
+  },
+  "Juniper Junos": {
+    supportsExtraPadding: false,
+    supportsTfc: false,
+    description:
+      "Pads to the cipher block size rounded up to 4 bytes. Junos has no setting for TFC or extra padding.",
+  },
+  "RFC 4303 Minimum": {
+    supportsExtraPadding: true,
+    supportsTfc: true,
+    description:
+      "Smallest padding allowed: the cipher block size, at least 4 bytes, plus any extra padding (up to 255 bytes) and TFC padding RFC 4303 allows.",
+  },
+};
+
+/**
+ * Returns `settings` switched to `policy`, without the extra or TFC padding
+ * the policy can not add.
+ */
+export function withPaddingPolicy(
+  settings: PaddingSettings,
+  policy: PaddingPolicy
+): PaddingSettings {
+  const spec = paddingPolicySpecs[policy];
+  return {
+    policy,
+    extraPadding: spec.supportsExtraPadding ? settings.extraPadding : 0,
+    tfcTarget: spec.supportsTfc ? settings.tfcTarget : 0,
+  };
+}
+
+/** ESP padding of a single packet. */
+export interface EspPadding {
+  policy: PaddingPolicy;
+  // Payload and trailer are padded to a multiple of this size
+  alignment: number;
+  // Traffic Flow Confidentiality padding after the inner packet
+  tfc: number;
+  // Size of the ESP Pad field, including any extra padding
+  pad: number;
+  // Part of `pad` added on top of the minimum
+  extra: number;
+}
+
+/** Returns the ESP pad needed to align payload + trailer to the block size. */
+export function getPadSize(packetLength: number, blockSize: number): number {
+  return (
+    Math.ceil((packetLength + 2) / blockSize) * blockSize - (packetLength + 2)
+  );
+}
+
+/**
+ * Calculates the ESP padding of a `payloadLength` byte payload protected by a
+ * cipher of the given block size, following the padding settings.
+ */
+export function calculateEspPadding(
+  settings: PaddingSettings,
+  payloadLength: number,
+  blockSize: number
+): EspPadding {
+  const { policy, extraPadding, tfcTarget } = settings;
+  const alignment = espAlignmentOf(blockSize);
+  const tfc = tfcTarget > 0 ? Math.max(tfcTarget - payloadLength, 0) : 0;
+  const minimum = getPadSize(payloadLength + tfc, alignment);
+  // Extra padding keeps the alignment and has to fit the Pad Length field
+  let extra = Math.ceil(extraPadding / alignment) * alignment;
+  while (extra > 0 && minimum + extra > MAX_ESP_PAD) {
+    extra -= alignment;
+  }
+  return { policy, alignment, tfc, pad: minimum + extra, extra };
+}
@@ -0,0 +1,299 @@
+import { calculateStack } from "./calculate";
+import {
+  defaultFormValues,
+  ipHeaderSizeOf,
+  MAX_PACKET_SIZE,
+} from "./constants";
+import { FRAGMENT_ALIGNMENT, IPV6_FRAG_HDR_SIZE } from "./fragment";
+import { minPacketSizeOf } from "./inner";
+import { stackFromForm } from "./stack";
+import { IFormState, IPVersion, StackLayer } from "./types";
+import { validateMtu, validateStack } from "./validate";
+
+/** What a hop does to the packet before sending it on its segment. */
+export type HopAction = "Forward" | "Add" | "Strip";
+
+export const hopActions: HopAction[] = ["Forward", "Add", "Strip"];
+
+/** A router and the segment it sends the packet over. */
+export interface PathHop {
+  name: string;
+  // Layer 3 MTU of the segment behind the hop
+  mtu: number;
+  action: HopAction;
+  // Layers added by an "Add" hop, innermost first. A "Strip" hop removes the
+  // layers of the last encapsulation still in place.
+  layers: StackLayer[];
+}
+
+/** A named path, built from the calculator form. */
+export interface PathPreset {
+  name: string;
+  build: (form: IFormState) => PathHop[];
+}
+
+export type HopEvent = "Fits" | "Fragmented" | "Packet Too Big" | "Not Reached";
+
+/** The packet on one segment of the path. */
+export interface HopResult {
+  hop: PathHop;
+  // IP version of the outermost header on the segment
+  ipProtocol: IPVersion;
+  // Size of the packet on the segment, after any earlier fragmentation
+  packetSize: number;
+  // Encapsulations in place on the segment
+  depth: number;
+  // Largest inner packet that crosses the segment without fragmentation
+  maxInnerSize: number | null;
+  event: HopEvent;
+  // Fragments sent for every packet arriving at the hop
+  fragments: number;
+  // Where the ICMP error of a "Packet Too Big" event is sent
+  icmpTarget: string;
+}
+
+/** The inner packet sent over every segment of a path. */
+export interface PathResult {
+  hops: HopResult[];
+  // Largest inner packet that crosses the whole path without fragmentation
+  pathMtu: number | null;
+  // Index of the hop whose segment limits `pathMtu`
+  bottleneck: number;
+  // Whether the packet, or its fragments, reach the end of the path
+  delivered: boolean;
+}
+
+const noUnderlay = defaultFormValues.underlay;
+
+/**
+ * Returns the options of the packet a hop encapsulates: the form's inner
+ * packet, or an encapsulation header without options once one is in place.
+ */
+const innerSettingsAt = (form: IFormState, depth: number) =>
+  depth === 0 ? form.inner : defaultFormValues.inner;
+
+const outerFamilyOf = (layers: StackLayer[], family: IPVersion) =>
+  layers.reduce(
+    (outer, layer) => (layer.kind === "IP" ? layer.ipProtocol : outer),
+    family
+  );
+
+export const pathPresets: PathPreset[] = [
+  {
+    name: "Single IPsec hop (calculator settings)",
+    build: (form) => [
+      { name: "LAN", mtu: 1500, action: "Forward", layers: [] },
+      {
+        name: "IPsec head-end",
+        mtu: 1500,
+        action: "Add",
+        layers: stackFromForm(form),
+      },
+      { name: "IPsec tail-end", mtu: 1500, action: "Strip", layers: [] },
+    ],
+  },
+  {
+    name: "Branch over DSL to a VXLAN data centre",
+    build: (form) => [
+      { name: "Branch LAN", mtu: 1500, action: "Forward", layers: [] },
+      {
+        name: "Branch router (calculator settings)",
+        mtu: 1500,
+        action: "Add",
+        layers: stackFromForm(form),
+      },
+      { name: "DSL with PPPoE", mtu: 1492, action: "Forward", layers: [] },
+      { name: "Internet", mtu: 1500, action: "Forward", layers: [] },
+      { name: "Hub router", mtu: 1500, action: "Strip", layers: [] },
+      {
+        name: "DC fabric leaf (VXLAN)",
+        mtu: 1550,
+        action: "Add",
+        layers: [
+          {
+            kind: "Overlay",
+            overlay: { ...defaultFormValues.tunnelSetting, overlay: "VXLAN" },
+          },
+          { kind: "IP", ipProtocol: "IPv4", purpose: "VXLAN" },
+        ],
+      },
+      { name: "Server leaf", mtu: 1500, action: "Strip", layers: [] },
+    ],
+  },
+];
+
+/** Returns the packet size on every segment when no hop fragments. */
+function segmentSizes(form: IFormState, hops: PathHop[], packetSize: number) {
+  const added: { size: number; family: IPVersion }[] = [];
+  let size = packetSize;
+  let family = form.innerProtocol;
+  return hops.map((hop) => {
+    if (hop.action === "Add") {
+      const inner = innerSettingsAt(form, added.length);
+      added.push({ size, family });
+      size = calculateStack(
+        size,
+        family,
+        { layers: hop.layers, underlay: noUnderlay },
+        inner
+      ).totalSize;
+      family = outerFamilyOf(hop.layers, family);
+    } else if (hop.action === "Strip") {
+      ({ size, family } = added.pop() ?? { size, family });
+    }
+    return size;
+  });
+}
+
+/**
+ * Checks the hops of a path carrying the form's inner packet.
+ * Returns an error message, or an empty string when the path is valid.
+ */
+export function validatePath(form: IFormState, hops: PathHop[]) {
+  if (hops.length === 0) {
+    return "Please add at least one hop to the path";
+  }
+  const added: IPVersion[] = [];
+  let family = form.innerProtocol;
+  for (const [index, hop] of hops.entries()) {
+    const position = `Hop ${index + 1} (${hop.name})`;
+    let error = "";
+    if (hop.action === "Add") {
+      // The layers do not depend on the size of the packet they carry
+      const inner = innerSettingsAt(form, added.length);
+      error =
+        hop.layers.length === 0
+          ? "Please add at least one layer."
+          : validateStack(
+              minPacketSizeOf(family, inner),
+              family,
+              { layers: hop.layers, underlay: noUnderlay },
+              inner
+            );
+      added.push(family);
+      family = outerFamilyOf(hop.layers, family);
+    } else if (hop.action === "Strip") {
+      const stripped = added.pop();
+      if (stripped === undefined) {
+        error = "There is no encapsulation left to strip.";
+      } else {
+        family = stripped;
+      }
+    }
+    error = error || validateMtu(hop.mtu, family);
+    if (error) {
+      return `${position}: ${error}`;
+    }
+  }
+  return "";
+}
+
+/**
+ * Sends the form's inner packet along a path and reports where it is
+ * fragmented or dropped with an ICMP "packet too big" error.
+ * DF is copied from the inner packet into every IPv4 encapsulation header.
+ * The inputs are expected to pass `validateForm` and `validatePath`.
+ */
+export function simulatePath(
+  form: IFormState,
+  hops: PathHop[],
+  innerDf: boolean
+): PathResult {
+  const minSize = minPacketSizeOf(form.innerProtocol, form.inner);
+  const maxInnerSizes = hops.map((hop, index) => {
+    const fits = (packetSize: number) =>
+      segmentSizes(form, hops, packetSize)[index] <= hop.mtu;
+    if (!fits(minSize)) {
+      return null;
+    }
+    // Encapsulated sizes never shrink as the inner packet grows
+    let low = minSize;
+    let high = Math.min(hop.mtu, MAX_PACKET_SIZE);
+    while (low < high) {
+      const mid = Math.ceil((low + high) / 2);
+      if (fits(mid)) {
+        low = mid;
+      } else {
+        high = mid - 1;
+      }
+    }
+    return low;
+  });
+
+  // Routers never fragment IPv6 packets, so IPv6 counts as DF set
+  const df = form.innerProtocol === "IPv6" || innerDf;
+  const added: { size: number; family: IPVersion; origin: string }[] = [];
+  let size = form.packetSize;
+  let family = form.innerProtocol;
+  let dropped = false;
+  const results = hops.map((hop, index): HopResult => {
+    const result: HopResult = {
+      hop,
+      ipProtocol: family,
+      packetSize: size,
+      depth: added.length,
+      maxInnerSize: maxInnerSizes[index],
+      event: "Not Reached",
+      fragments: 0,
+      icmpTarget: "",
+    };
+    if (dropped) {
+      return result;
+    }
+    if (hop.action === "Add") {
+      const inner = innerSettingsAt(form, added.length);
+      added.push({ size, family, origin: hop.name });
+      size = calculateStack(
+        size,
+        family,
+        { layers: hop.layers, underlay: noUnderlay },
+        inner
+      ).totalSize;
+      family = outerFamilyOf(hop.layers, family);
+    } else if (hop.action === "Strip") {
+      // Fragments of the stripped encapsulation are reassembled here
+      ({ size, family } = added.pop() ?? { size, family });
+    }
+    result.ipProtocol = family;
+    result.packetSize = size;
+    result.depth = added.length;
+    if (size <= hop.mtu) {
+      return { ...result, event: "Fits", fragments: 1 };
+    }
+
+    // Routers only fragment IPv4 packets without DF, but the source of an
+    // IPv6 packet may fragment it. The error for a packet the hop could not
+    // encapsulate goes to whoever sent it the packet.
+    const source = hop.action === "Add";
+    if (family === "IPv4" ? df : !source) {
+      dropped = true;
+      return {
+        ...result,
+        event: "Packet Too Big",
+        icmpTarget:
+          added[added.length - (source ? 2 : 1)]?.origin ?? "the sender",
+      };
+    }
+    const headerSize =
+      ipHeaderSizeOf(family) + (family === "IPv6" ? IPV6_FRAG_HDR_SIZE : 0);
+    const maxChunk =
+      Math.floor((hop.mtu - headerSize) / FRAGMENT_ALIGNMENT) *
+      FRAGMENT_ALIGNMENT;
+    const dataSize = size - ipHeaderSizeOf(family);
+    size = headerSize + maxChunk;
+    return {
+      ...result,
+      event: "Fragmented",
+      fragments: Math.ceil(dataSize / maxChunk),
+    };
+  });
+
+  const limits = maxInnerSizes.map((maxInnerSize) => maxInnerSize ?? 0);
+  const pathMtu = Math.min(...limits);
+  return {
+    hops: results,
+    pathMtu: maxInnerSizes.includes(null) ? null : pathMtu,
+    bottleneck: limits.indexOf(pathMtu),
+    delivered: !dropped,
+  };
+}
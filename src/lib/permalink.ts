@@ -0,0 +1,394 @@
+import {
+  ahHmacItems,
+  cloneForm,
+  defaultFormValues,
+  espEncrItems,
+  espHmacItems,
+  innerTransports,
+  ipVersions,
+  linkTypes,
+  overlayTypes,
+  paddingPolicies,
+  tunnelModes,
+} from "./constants";
+import { IFormState } from "./types";
+import { diagnoseForm, validateForm } from "./validate";
+
+/** Version written into new permalinks. */
+export const PERMALINK_VERSION = 2;
+
+type PermalinkParams = { [key: string]: string };
+
+/**
+ * Upgrades the parameters of an older permalink version to the next version.
+ * Indexed by the version being upgraded from.
+ */
+const migrations: { [version: number]: (params: PermalinkParams) => void } = {
+  // Version 1 only knew GRE as an overlay
+  1: (params) => {
+    if (params.gre !== undefined) {
+      params.overlay = params.gre === "1" ? "GRE" : "None";
+      delete params.gre;
+    }
+    if (params.greip !== undefined) {
+      params.delivery = params.greip;
+      delete params.greip;
+    }
+  },
+};
+
+/** Result of decoding a permalink. */
+export interface DecodedPermalink {
+  form: IFormState;
+  // Values that were repaired or rejected while decoding
+  messages: string[];
+}
+
+/** Encodes a form as a versioned query string (without the leading `?`). */
+export function encodePermalink(form: IFormState) {
+  const params: PermalinkParams = {
+    v: `${PERMALINK_VERSION}`,
+    size: `${form.packetSize}`,
+    inner: form.innerProtocol,
+    l4: form.inner.transport,
+    tsopt: form.inner.tcpTimestamps ? "1" : "0",
+    sack: `${form.inner.tcpSackBlocks}`,
+    wscale: form.inner.tcpWindowScale ? "1" : "0",
+    ip4opt: `${form.inner.ipv4Options}`,
+    hbh: `${form.inner.ipv6HopByHop}`,
+    srh: `${form.inner.ipv6Segments}`,
+    dstopt: `${form.inner.ipv6DestOptions}`,
+    ah: form.transform.ahInte,
+    encr: form.transform.espEncr,
+    inte: form.transform.espInte,
+    icv: `${form.transform.icvLength}`,
+    mode: form.transform.tunnelMode,
+    outer: form.transport.ipProtocol,
+    natt: form.transport.natTraver ? "1" : "0",
+    tcp: form.transport.tcpEncap ? "1" : "0",
+    overlay: form.tunnelSetting.overlay,
+    delivery: form.tunnelSetting.deliveryProtocol,
+    grekey: form.tunnelSetting.greKey ? "1" : "0",
+    grecsum: form.tunnelSetting.greChecksum ? "1" : "0",
+    greseq: form.tunnelSetting.greSequence ? "1" : "0",
+    geneveeth: form.tunnelSetting.geneveEthernet ? "1" : "0",
+    geneveopt: `${form.tunnelSetting.geneveOptions}`,
+    cookie: `${form.tunnelSetting.l2tpCookie}`,
+    link: form.underlay.linkType,
+    vlan: `${form.underlay.vlanTags}`,
+    mpls: `${form.underlay.mplsLabels}`,
+    pppoe: form.underlay.pppoe ? "1" : "0",
+    pad: form.padding.policy,
+    padx: `${form.padding.extraPadding}`,
+    tfc: `${form.padding.tfcTarget}`,
+  };
+  return Object.entries(params)
+    .map(([key, value]) => `${key}=${encodeURIComponent(value)}`)
+    .join("&");
+}
+
+/**
+ * Sets the setting at a dotted path, as in `Diagnostic.field`, back to its
+ * default. Returns whether the path named a setting.
+ */
+function resetSetting(form: IFormState, field: string) {
+  const [key, name] = field.split(".");
+  for (const [section, fallback] of Object.entries(
+    cloneForm(defaultFormValues)
+  )) {
+    if (section !== key) {
+      continue;
+    }
+    if (name === undefined) {
+      Object.assign(form, { [section]: fallback });
+      return true;
+    }
+    for (const [setting, value] of Object.entries(fallback)) {
+      if (setting === name) {
+        Object.assign(form[key as keyof IFormState], { [setting]: value });
+        return true;
+      }
+    }
+  }
+  return false;
+}
+
+function parseQuery(query: string) {
+  const params: PermalinkParams = {};
+  for (const pair of query.replace(/^[?#]/, "").split("&")) {
+    if (!pair) {
+      continue;
+    }
+    const [key, value = ""] = pair.split("=");
+    try {
+      params[decodeURIComponent(key)] = decodeURIComponent(
+        value.replace(/\+/g, " ")
+      );
+    } catch {
+      // Malformed escape sequences are treated as missing values
+    }
+  }
+  return params;
+}
+
+/**
+ * Decodes a permalink query string into a form.
+ * Missing values keep their defaults and unknown values are repaired.
+ * Settings that keep the form from passing `validateForm` are reset to their
+ * defaults, and only a form that is still invalid is rejected in favour of
+ * the defaults.
+ */
+export function decodePermalink(query: string): DecodedPermalink {
+  const params = parseQuery(query);
+  const form = cloneForm(defaultFormValues);
+  const messages: string[] = [];
+  if (Object.keys(params).length === 0) {
+    return { form, messages };
+  }
+
+  let version = parseInt(params.v);
+  if (!(version >= 1)) {
+    version = 1;
+  }
+  if (version > PERMALINK_VERSION) {
+    messages.push(
+      `This link was created by a newer version of the calculator. Settings it does not know about were ignored.`
+    );
+  }
+  for (; version < PERMALINK_VERSION; version++) {
+    migrations[version]?.(params);
+  }
+
+  const pick = <T extends string>(
+    key: string,
+    label: string,
+    items: T[],
+    fallback: T
+  ): T => {
+    const value = params[key];
+    if (value === undefined) {
+      return fallback;
+    }
+    if ((items as string[]).includes(value)) {
+      return value as T;
+    }
+    messages.push(`Unknown ${label} "${value}", using "${fallback}".`);
+    return fallback;
+  };
+  const flag = (key: string, label: string, fallback: boolean) => {
+    const value = params[key];
+    if (value === undefined) {
+      return fallback;
+    }
+    if (value === "0" || value === "1") {
+      return value === "1";
+    }
+    messages.push(`Invalid ${label} setting "${value}", using "${fallback}".`);
+    return fallback;
+  };
+
+  const integer = (key: string, label: string, fallback: number) => {
+    const value = params[key];
+    if (value === undefined) {
+      return fallback;
+    }
+    if (/^\d+$/.test(value)) {
+      return parseInt(value);
+    }
+    messages.push(`Invalid ${label} "${value}", using ${fallback}.`);
+    return fallback;
+  };
+
+  form.packetSize = integer("size", "inner packet size", form.packetSize);
+  form.innerProtocol = pick(
+    "inner",
+    "inner IP version",
+    ipVersions,
+    form.innerProtocol
+  );
+  form.inner.transport = pick(
+    "l4",
+    "inner transport",
+    innerTransports,
+    form.inner.transport
+  );
+  form.inner.tcpTimestamps = flag(
+    "tsopt",
+    "TCP timestamps",
+    form.inner.tcpTimestamps
+  );
+  form.inner.tcpSackBlocks = integer(
+    "sack",
+    "number of SACK blocks",
+    form.inner.tcpSackBlocks
+  );
+  form.inner.tcpWindowScale = flag(
+    "wscale",
+    "TCP window scale",
+    form.inner.tcpWindowScale
+  );
+  form.inner.ipv4Options = integer(
+    "ip4opt",
+    "IPv4 option length",
+    form.inner.ipv4Options
+  );
+  form.inner.ipv6HopByHop = integer(
+    "hbh",
+    "IPv6 Hop-by-Hop Options length",
+    form.inner.ipv6HopByHop
+  );
+  form.inner.ipv6Segments = integer(
+    "srh",
+    "number of segment routing segments",
+    form.inner.ipv6Segments
+  );
+  form.inner.ipv6DestOptions = integer(
+    "dstopt",
+    "IPv6 Destination Options length",
+    form.inner.ipv6DestOptions
+  );
+  form.transform.ahInte = pick(
+    "ah",
+    "AH algorithm",
+    ahHmacItems,
+    form.transform.ahInte
+  );
+  form.transform.espEncr = pick(
+    "encr",
+    "ESP encryption",
+    espEncrItems,
+    form.transform.espEncr
+  );
+  form.transform.espInte = pick(
+    "inte",
+    "ESP integrity",
+    espHmacItems,
+    form.transform.espInte
+  );
+  form.transform.icvLength = integer(
+    "icv",
+    "ICV length",
+    form.transform.icvLength
+  );
+  form.transform.tunnelMode = pick(
+    "mode",
+    "IPsec mode",
+    tunnelModes,
+    form.transform.tunnelMode
+  );
+  form.transport.ipProtocol = pick(
+    "outer",
+    "outer IP version",
+    ipVersions,
+    form.transport.ipProtocol
+  );
+  form.transport.natTraver = flag("natt", "NAT-T", form.transport.natTraver);
+  form.transport.tcpEncap = flag("tcp", "ESP-in-TCP", form.transport.tcpEncap);
+  form.tunnelSetting.overlay = pick(
+    "overlay",
+    "overlay",
+    overlayTypes,
+    form.tunnelSetting.overlay
+  );
+  form.tunnelSetting.deliveryProtocol = pick(
+    "delivery",
+    "overlay delivery IP version",
+    ipVersions,
+    form.tunnelSetting.deliveryProtocol
+  );
+  form.tunnelSetting.greKey = flag(
+    "grekey",
+    "GRE key",
+    form.tunnelSetting.greKey
+  );
+  form.tunnelSetting.greChecksum = flag(
+    "grecsum",
+    "GRE checksum",
+    form.tunnelSetting.greChecksum
+  );
+  form.tunnelSetting.greSequence = flag(
+    "greseq",
+    "GRE sequence number",
+    form.tunnelSetting.greSequence
+  );
+  form.tunnelSetting.geneveEthernet = flag(
+    "geneveeth",
+    "GENEVE Ethernet payload",
+    form.tunnelSetting.geneveEthernet
+  );
+  form.tunnelSetting.geneveOptions = integer(
+    "geneveopt",
+    "GENEVE option length",
+    form.tunnelSetting.geneveOptions
+  );
+  form.tunnelSetting.l2tpCookie = integer(
+    "cookie",
+    "L2TPv3 cookie length",
+    form.tunnelSetting.l2tpCookie
+  );
+  form.underlay.linkType = pick(
+    "link",
+    "link type",
+    linkTypes,
+    form.underlay.linkType
+  );
+  form.underlay.vlanTags = integer(
+    "vlan",
+    "number of 802.1Q tags",
+    form.underlay.vlanTags
+  );
+  form.underlay.mplsLabels = integer(
+    "mpls",
+    "number of MPLS labels",
+    form.underlay.mplsLabels
+  );
+  form.underlay.pppoe = flag("pppoe", "PPPoE", form.underlay.pppoe);
+  form.padding.policy = pick(
+    "pad",
+    "ESP padding policy",
+    paddingPolicies,
+    form.padding.policy
+  );
+  form.padding.extraPadding = integer(
+    "padx",
+    "extra ESP padding",
+    form.padding.extraPadding
+  );
+  form.padding.tfcTarget = integer(
+    "tfc",
+    "TFC padding target",
+    form.padding.tfcTarget
+  );
+
+  // Each reset may reveal errors that depended on the setting
+  const reset = new Set<string>();
+  for (;;) {
+    const errors = diagnoseForm(form).filter(
+      (diagnostic) =>
+        diagnostic.severity === "Error" && !reset.has(diagnostic.field)
+    );
+    if (errors.length === 0) {
+      break;
+    }
+    for (const { field, message } of errors) {
+      reset.add(field);
+      if (resetSetting(form, field)) {
+        messages.push(
+          `The linked setting was reset to its default: ${message}`
+        );
+      }
+    }
+  }
+
+  const error = validateForm(form);
+  if (error) {
+    return {
+      form: cloneForm(defaultFormValues),
+      messages: [
+        ...messages,
+        `The linked configuration was not loaded: ${error}`,
+      ],
+    };
+  }
+  return { form, messages };
+}
@@ -0,0 +1,167 @@
+import { espEncryptionSpecOf, espIntegritySpecOf } from "./algorithms";
+import { defaultFormValues, ipFamiliesOf } from "./constants";
+import { EncapsulationStack, IFormState, StackLayer } from "./types";
+
+export const stackLayerKinds: StackLayer["kind"][] = [
+  "IP",
+  "Overlay",
+  "NAT-T",
+  "ESP-in-TCP",
+  "ESP",
+  "AH",
+];
+
+/** Returns a new layer of the given kind with default settings. */
+export function newStackLayer(kind: StackLayer["kind"]): StackLayer {
+  switch (kind) {
+    case "IP":
+      return { kind, ipProtocol: "IPv4", purpose: "IPsec" };
+    case "Overlay":
+      return {
+        kind,
+        overlay: { ...defaultFormValues.tunnelSetting, overlay: "GRE" },
+      };
+    case "NAT-T":
+    case "ESP-in-TCP":
+      return { kind };
+    case "ESP":
+      return {
+        kind,
+        espEncr: defaultFormValues.transform.espEncr,
+        espInte: defaultFormValues.transform.espInte,
+        icvLength: defaultFormValues.transform.icvLength,
+        padding: { ...defaultFormValues.padding },
+      };
+    case "AH":
+      return { kind, ahInte: "AH-SHA-HMAC" };
+  }
+}
+
+/** Returns the layers that encapsulate a packet as described by the form. */
+export function stackFromForm(form: IFormState): StackLayer[] {
+  const families = ipFamiliesOf(form);
+  const { overlay } = form.tunnelSetting;
+  const tunnel = form.transform.tunnelMode === "Tunnel";
+  const layers: StackLayer[] = [];
+  if (overlay !== "None") {
+    // In transport mode the delivery header is the one IPsec protects
+    layers.push(
+      { kind: "Overlay", overlay: { ...form.tunnelSetting } },
+      {
+        kind: "IP",
+        ipProtocol: families.delivery,
+        purpose: tunnel ? overlay : "IPsec",
+      }
+    );
+  }
+  if (tunnel) {
+    layers.push({ kind: "IP", ipProtocol: families.outer, purpose: "IPsec" });
+  }
+  const { espEncr, espInte, icvLength, ahInte } = form.transform;
+  if (
+    espEncryptionSpecOf(espEncr) !== null ||
+    espIntegritySpecOf(espInte)?.authOnly
+  ) {
+    layers.push({
+      kind: "ESP",
+      espEncr,
+      espInte,
+      icvLength,
+      padding: { ...form.padding },
+    });
+  }
+  if (ahInte !== "None") {
+    layers.push({ kind: "AH", ahInte });
+  }
+  if (form.transport.natTraver) {
+    layers.push({ kind: "NAT-T" });
+  }
+  if (form.transport.tcpEncap) {
+    layers.push({ kind: "ESP-in-TCP" });
+  }
+  return layers;
+}
+
+/** A named stack, built from the calculator form. */
+export interface StackPreset {
+  name: string;
+  build: (form: IFormState) => EncapsulationStack;
+}
+
+export const stackPresets: StackPreset[] = [
+  {
+    name: "Calculator settings",
+    build: (form) => ({
+      layers: stackFromForm(form),
+      underlay: { ...form.underlay },
+    }),
+  },
+  {
+    name: "IPsec in IPsec (customer tunnel over provider tunnel)",
+    build: (form) => ({
+      layers: [
+        { kind: "IP", ipProtocol: "IPv4", purpose: "IPsec" },
+        {
+          kind: "ESP",
+          espEncr: "ESP-AES-128/192/256",
+          espInte: "ESP-SHA-256",
+          icvLength: 16,
+          padding: { ...form.padding },
+        },
+        { kind: "NAT-T" },
+        { kind: "IP", ipProtocol: "IPv4", purpose: "IPsec" },
+        {
+          kind: "ESP",
+          espEncr: "ESP-GCM-128/192/256",
+          espInte: "None",
+          icvLength: 16,
+          padding: { ...form.padding },
+        },
+      ],
+      underlay: { ...form.underlay },
+    }),
+  },
+  {
+    name: "GRE over transport IPsec over NAT-T over PPPoE",
+    build: (form) => ({
+      layers: [
+        {
+          kind: "Overlay",
+          overlay: { ...defaultFormValues.tunnelSetting, overlay: "GRE" },
+        },
+        { kind: "IP", ipProtocol: "IPv4", purpose: "IPsec" },
+        {
+          kind: "ESP",
+          espEncr: "ESP-AES-128/192/256",
+          espInte: "ESP-SHA-HMAC",
+          icvLength: 16,
+          padding: { ...form.padding },
+        },
+        { kind: "NAT-T" },
+      ],
+      underlay: {
+        linkType: "Ethernet",
+        vlanTags: 0,
+        mplsLabels: 0,
+        pppoe: true,
+      },
+    }),
+  },
+  {
+    // The copied header costs the same as a new tunnel mode header
+    name: "GETVPN (tunnel header preservation)",
+    build: (form) => ({
+      layers: [
+        { kind: "IP", ipProtocol: form.innerProtocol, purpose: "IPsec" },
+        {
+          kind: "ESP",
+          espEncr: "ESP-GCM-128/192/256",
+          espInte: "None",
+          icvLength: 16,
+          padding: { ...form.padding },
+        },
+      ],
+      underlay: { ...form.underlay },
+    }),
+  },
+];
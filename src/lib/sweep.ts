@@ -0,0 +1,104 @@
+import { calculatePacket } from "./calculate";
+import { MAX_PACKET_SIZE, sumBytes } from "./constants";
+import { minPacketSizeOf } from "./inner";
+import { IFormState } from "./types";
+
+/** Largest number of points a single sweep may calculate. */
+export const MAX_SWEEP_POINTS = 20000;
+
+/** Range of inner packet sizes to sweep over. */
+export interface SweepRange {
+  start: number;
+  end: number;
+  step: number;
+}
+
+/** Result of the calculation for one inner packet size of a sweep. */
+export interface SweepPoint {
+  packetSize: number;
+  totalSize: number;
+  overhead: number;
+  overheadPercent: number;
+  // Bytes of ESP padding (0 without ESP)
+  padding: number;
+  // Whether the encrypted packet is larger than the MTU
+  exceedsMtu: boolean;
+}
+
+/** Returns the default sweep range, from the smallest packet of the form. */
+export function defaultSweepRangeOf(form: IFormState): SweepRange {
+  return {
+    start: minPacketSizeOf(form.innerProtocol, form.inner),
+    end: 9000,
+    step: 1,
+  };
+}
+
+/**
+ * Checks a sweep range for the given form.
+ * Returns an error message, or an empty string when the range is valid.
+ */
+export function validateSweepRange(form: IFormState, range: SweepRange) {
+  const { start, end, step } = range;
+  const minPacketSize = minPacketSizeOf(form.innerProtocol, form.inner);
+  if (!Number.isInteger(start) || !Number.isInteger(end)) {
+    return "Please enter whole numbers for the sweep range";
+  }
+  if (start < minPacketSize || end > MAX_PACKET_SIZE || start > end) {
+    return `Please enter a sweep range between ${minPacketSize} and ${MAX_PACKET_SIZE}`;
+  }
+  if (!Number.isInteger(step) || step < 1) {
+    return "Please enter a sweep step of at least 1";
+  }
+  if ((end - start) / step + 1 > MAX_SWEEP_POINTS) {
+    return `A sweep can calculate at most ${MAX_SWEEP_POINTS} points. Please increase the step.`;
+  }
+  return "";
+}
+
+/**
+ * Calculates the encrypted packet for every inner size in the range.
+ * The range is expected to pass `validateSweepRange`.
+ */
+export function sweepPacketSizes(
+  form: IFormState,
+  range: SweepRange,
+  mtu: number
+) {
+  const points: SweepPoint[] = [];
+  for (
+    let packetSize = range.start;
+    packetSize <= range.end;
+    packetSize += range.step
+  ) {
+    const result = calculatePacket({ ...form, packetSize });
+    points.push({
+      packetSize,
+      totalSize: result.totalSize,
+      overhead: result.overhead,
+      overheadPercent: result.overheadPercent,
+      padding: sumBytes(
+        result.fields.filter((field) => field.text === "ESP Pad")
+      ),
+      exceedsMtu: result.totalSize > mtu,
+    });
+  }
+  return points;
+}
+
+/** Formats sweep points as CSV with a header row. */
+export function sweepToCsv(points: SweepPoint[]) {
+  const header =
+    "Inner Packet Size,Total Size,Overhead,Overhead Percent,ESP Padding,Exceeds MTU";
+  const rows = points.map((point) =>
+    [
+      point.packetSize,
+      point.totalSize,
+      point.overhead,
+      point.overheadPercent.toFixed(2),
+      point.padding,
+      point.exceedsMtu,
+    ].join(",")
+  );
+  return [header, ...rows].join("\n") + "\n";
+}
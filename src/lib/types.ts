@@ -0,0 +1,255 @@
+import { EspPadding } from "./padding";
+
+/** Interface used for all fields that can be part of a packet. */
+export interface PacketDetail {
+  // Field name
+  text: string;
+  // Size of the field
+  bytes: number;
+  // (Optional) Group to be merged with in packet format chart
+  group?: string;
+  // (Optional) Link-layer framing that is not part of the IP packet
+  framing?: boolean;
+  // (Optional) Options or extension header that extends the IP header in
+  // front of it, so ESP and AH go behind it in transport mode
+  headerExtension?: boolean;
+}
+
+export type EspEncryption =
+  | "None"
+  | "ESP-DES/3DES"
+  | "ESP-AES-128/192/256"
+  | "ESP-AES-CTR-128/192/256"
+  | "ESP-GCM-128/192/256"
+  | "ESP-CCM-128/192/256"
+  | "ESP-CHACHA20-POLY1305"
+  | "ESP-NULL";
+
+export type EspHmac =
+  | "None"
+  | "ESP-MD5-HMAC"
+  | "ESP-SHA-HMAC"
+  | "ESP-SHA-256"
+  | "ESP-SHA-256-96"
+  | "ESP-SHA-384"
+  | "ESP-SHA-512"
+  | "ESP-AES-XCBC-MAC"
+  | "ESP-AES-CMAC"
+  | "ESP-GMAC-128/192/256";
+
+export type AhHmac =
+  | "None"
+  | "AH-MD5-HMAC"
+  | "AH-SHA-HMAC"
+  | "AH-SHA-256"
+  | "AH-SHA-384"
+  | "AH-SHA-512"
+  | "AH-GMAC-128/192/256";
+
+export type TunnelMode = "Tunnel" | "Transport";
+
+export type IPVersion = "IPv4" | "IPv6";
+
+export type OverlayType =
+  | "None"
+  | "GRE"
+  | "VXLAN"
+  | "GENEVE"
+  | "L2TPv3"
+  | "IP-in-IP";
+
+export type InnerTransport = "None" | "TCP" | "UDP" | "ICMP";
+
+export type LinkType = "None" | "Ethernet" | "ATM/AAL5";
+
+export type PaddingPolicy =
+  | "Cisco IOS/IOS-XE"
+  | "Linux/strongSwan"
+  | "Palo Alto PAN-OS"
+  | "Juniper Junos"
+  | "RFC 4303 Minimum";
+
+/** Overlay encapsulation carried inside IPsec. */
+export interface OverlaySettings {
+  // Overlay encapsulation protected by IPsec
+  overlay: OverlayType;
+  // Family of the overlay delivery header
+  deliveryProtocol: IPVersion;
+  greKey: boolean;
+  greChecksum: boolean;
+  greSequence: boolean;
+  // GENEVE carries an Ethernet frame (otherwise an IP packet)
+  geneveEthernet: boolean;
+  // Length of the GENEVE options, a multiple of 4
+  geneveOptions: number;
+  // Length of the L2TPv3 cookie (0, 4 or 8)
+  l2tpCookie: number;
+}
+
+/** Link layer carrying the encrypted packet. */
+export interface UnderlaySettings {
+  linkType: LinkType;
+  // Number of 802.1Q tags (2 for QinQ)
+  vlanTags: number;
+  // Number of MPLS labels
+  mplsLabels: number;
+  pppoe: boolean;
+}
+
+/** ESP padding behaviour. */
+export interface PaddingSettings {
+  // Implementation whose ESP padding is modelled
+  policy: PaddingPolicy;
+  // Bytes of padding added on top of the minimum (rounded to the alignment)
+  extraPadding: number;
+  // Pads the ESP payload up to this size with TFC padding (0 disables it)
+  tfcTarget: number;
+}
+
+/** Headers of the inner packet behind its IP header. */
+export interface InnerSettings {
+  // Transport header of the inner packet ("None" leaves the payload opaque)
+  transport: InnerTransport;
+  // TCP timestamps option (RFC 7323)
+  tcpTimestamps: boolean;
+  // Number of SACK blocks carried (0 for none)
+  tcpSackBlocks: number;
+  // TCP window scale option, only sent in SYN segments
+  tcpWindowScale: boolean;
+  // Length of the IPv4 options, a multiple of 4
+  ipv4Options: number;
+  // Length of the IPv6 Hop-by-Hop Options header, a multiple of 8 (0 for none)
+  ipv6HopByHop: number;
+  // Number of segments of an IPv6 Segment Routing Header (0 for none)
+  ipv6Segments: number;
+  // Length of the IPv6 Destination Options header, a multiple of 8
+  ipv6DestOptions: number;
+}
+
+/** Complete input of a single overhead calculation. */
+export interface IFormState {
+  packetSize: number;
+  // Family of the original (inner) packet
+  innerProtocol: IPVersion;
+  inner: InnerSettings;
+  transform: {
+    ahInte: AhHmac;
+    espEncr: EspEncryption;
+    espInte: EspHmac;
+    // ICV size of combined mode ciphers that support truncation (GCM, CCM)
+    icvLength: number;
+    tunnelMode: TunnelMode;
+  };
+  transport: {
+    // Family of the new (outer) IP header added for IPsec
+    ipProtocol: IPVersion;
+    natTraver: boolean;
+    // ESP in a TCP stream (RFC 8229), for firewalls that drop UDP
+    tcpEncap: boolean;
+  };
+  tunnelSetting: OverlaySettings;
+  underlay: UnderlaySettings;
+  padding: PaddingSettings;
+}
+
+/** Adds a new IP header in front of the packet. */
+export interface IPStackLayer {
+  kind: "IP";
+  ipProtocol: IPVersion;
+  // What the header is added for, e.g. "IPsec" or "GRE"
+  purpose: string;
+}
+
+/** Adds an overlay header (without its delivery IP header) in front. */
+export interface OverlayStackLayer {
+  kind: "Overlay";
+  // `deliveryProtocol` is not used, the delivery header is an IP layer
+  overlay: OverlaySettings;
+}
+
+/** Inserts a NAT-T UDP header behind the outermost IP header. */
+export interface NatTraversalStackLayer {
+  kind: "NAT-T";
+}
+
+/** Inserts an RFC 8229 TCP header and length prefix behind the outermost IP header. */
+export interface TcpEncapsulationStackLayer {
+  kind: "ESP-in-TCP";
+}
+
+/** Inserts ESP behind the outermost IP header, protecting everything after it. */
+export interface EspStackLayer {
+  kind: "ESP";
+  espEncr: EspEncryption;
+  espInte: EspHmac;
+  // ICV size of combined mode ciphers that support truncation (GCM, CCM)
+  icvLength: number;
+  padding: PaddingSettings;
+}
+
+/** Inserts AH behind the outermost IP header. */
+export interface AhStackLayer {
+  kind: "AH";
+  ahInte: AhHmac;
+}
+
+/**
+ * One step of an encapsulation stack. Tunnel mode IPsec is an IP layer
+ * followed by an ESP or AH layer, transport mode is the ESP or AH layer alone.
+ */
+export type StackLayer =
+  | IPStackLayer
+  | OverlayStackLayer
+  | NatTraversalStackLayer
+  | TcpEncapsulationStackLayer
+  | EspStackLayer
+  | AhStackLayer;
+
+/** Ordered encapsulations applied to the inner packet. */
+export interface EncapsulationStack {
+  // Layers applied to the inner packet, innermost first
+  layers: StackLayer[];
+  underlay: UnderlaySettings;
+}
+
+/** IP family used by each IP header of the encrypted packet. */
+export interface IPFamilies {
+  // New IP header added for IPsec (or the original header in transport mode)
+  outer: IPVersion;
+  // Overlay (GRE, VXLAN, ...) delivery header
+  delivery: IPVersion;
+  // Original IP header
+  inner: IPVersion;
+}
+
+/** Packet fields merged into one block, as drawn in the packet format chart. */
+export interface PacketLayer {
+  // Group name, or the field name for ungrouped fields
+  label: string;
+  // Sum of all field sizes in the layer
+  size: number;
+  // Fields merged into this layer (empty for ungrouped fields)
+  details: PacketDetail[];
+}
+
+/** Structured result of `calculatePacket`. */
+export interface PacketResult {
+  // Every field of the encrypted packet, outermost first
+  fields: PacketDetail[];
+  // Fields merged by group, outermost first
+  layers: PacketLayer[];
+  // Size of the resulting IPsec packet (layer 3)
+  totalSize: number;
+  // Size including the link-layer framing, i.e. the bytes on the wire
+  wireSize: number;
+  // Bytes added on top of the inner packet
+  overhead: number;
+  // Overhead relative to the inner packet size
+  overheadPercent: number;
+  // Application data carried behind the inner headers
+  payloadSize: number;
+  // Application data relative to the bytes on the wire, in percent
+  efficiency: number;
+  // ESP padding applied by each ESP layer, innermost first
+  padding: EspPadding[];
+}
@@ -0,0 +1,560 @@
+import { espEncryptionSpecOf, espIntegritySpecOf } from "./algorithms";
+import {
+  defaultFormValues,
+  l2tpCookieSizes,
+  MAX_PACKET_SIZE,
+  MAX_STACKED_HEADERS,
+} from "./constants";
+import {
+  MAX_IPV4_OPTIONS,
+  MAX_IPV6_OPTIONS_HDR,
+  MAX_SACK_BLOCKS,
+  MAX_SRH_SEGMENTS,
+  MAX_TCP_OPTIONS,
+  minPacketSizeOf,
+  tcpOptionsSizeOf,
+} from "./inner";
+import { MAX_GENEVE_OPTIONS } from "./overlay";
+import { MAX_ESP_PAD, paddingPolicySpecs } from "./padding";
+import {
+  EncapsulationStack,
+  EspEncryption,
+  EspHmac,
+  IFormState,
+  InnerSettings,
+  IPVersion,
+  OverlaySettings,
+  PaddingSettings,
+  UnderlaySettings,
+} from "./types";
+
+/** Largest number of layers accepted by `validateStack`. */
+export const MAX_STACK_LAYERS = 16;
+
+export type DiagnosticSeverity = "Error" | "Warning";
+
+/** Problem found in a form, tied to the setting it concerns. */
+export interface Diagnostic {
+  // Errors block the calculation, warnings are advisories
+  severity: DiagnosticSeverity;
+  // Dotted path of the setting, as in `flattenConfig`, e.g. `transform.espEncr`
+  field: string;
+  message: string;
+}
+
+const error = (field: string, message: string): Diagnostic => ({
+  severity: "Error",
+  field,
+  message,
+});
+
+const warning = (field: string, message: string): Diagnostic => ({
+  severity: "Warning",
+  field,
+  message,
+});
+
+/** Returns the message of the first error, or an empty string. */
+const firstError = (diagnostics: Diagnostic[]) =>
+  diagnostics.find((diagnostic) => diagnostic.severity === "Error")?.message ??
+  "";
+
+function validateInner(inner: InnerSettings, innerProtocol: IPVersion) {
+  const errors: Diagnostic[] = [];
+  const isLength = (bytes: number, multiple: number, max: number) =>
+    bytes >= 0 && bytes <= max && bytes % multiple === 0;
+  if (innerProtocol === "IPv4") {
+    if (!isLength(inner.ipv4Options, 4, MAX_IPV4_OPTIONS)) {
+      errors.push(
+        error(
+          "inner.ipv4Options",
+          `IPv4 options must be a multiple of 4 bytes between 0 and ${MAX_IPV4_OPTIONS}`
+        )
+      );
+    }
+  } else {
+    for (const [bytes, name, field] of [
+      [inner.ipv6HopByHop, "Hop-by-Hop Options", "inner.ipv6HopByHop"],
+      [inner.ipv6DestOptions, "Destination Options", "inner.ipv6DestOptions"],
+    ] as const) {
+      if (!isLength(bytes, 8, MAX_IPV6_OPTIONS_HDR)) {
+        errors.push(
+          error(
+            field,
+            `The IPv6 ${name} header must be a multiple of 8 bytes between 0 and ${MAX_IPV6_OPTIONS_HDR}`
+          )
+        );
+      }
+    }
+    if (!isLength(inner.ipv6Segments, 1, MAX_SRH_SEGMENTS)) {
+      errors.push(
+        error(
+          "inner.ipv6Segments",
+          `Please enter between 0 and ${MAX_SRH_SEGMENTS} segment routing segments`
+        )
+      );
+    }
+  }
+  if (inner.transport === "TCP") {
+    if (!isLength(inner.tcpSackBlocks, 1, MAX_SACK_BLOCKS)) {
+      errors.push(
+        error(
+          "inner.tcpSackBlocks",
+          `Please enter between 0 and ${MAX_SACK_BLOCKS} SACK blocks`
+        )
+      );
+    } else if (tcpOptionsSizeOf(inner) > MAX_TCP_OPTIONS) {
+      errors.push(
+        error(
+          "inner.transport",
+          `The selected TCP options need more than ${MAX_TCP_OPTIONS} bytes.`
+        )
+      );
+    }
+  }
+  return errors;
+}
+
+function validatePacketSize(
+  packetSize: number,
+  innerProtocol: IPVersion,
+  inner: InnerSettings
+) {
+  const minPacketSize = minPacketSizeOf(innerProtocol, inner);
+  const maxPacketSize = MAX_PACKET_SIZE;
+  if (
+    !(packetSize >= minPacketSize) ||
+    packetSize > maxPacketSize ||
+    !Number.isInteger(packetSize)
+  ) {
+    return [
+      error(
+        "packetSize",
+        `Please enter a valid packet size between ${minPacketSize} and ${maxPacketSize}`
+      ),
+    ];
+  }
+  return [];
+}
+
+function validateEspAlgorithms(
+  espEncrName: EspEncryption,
+  espInteName: EspHmac,
+  icvLength: number
+) {
+  const espEncr = espEncryptionSpecOf(espEncrName);
+  const espInte = espIntegritySpecOf(espInteName);
+  if (espEncr?.aead && !espEncr.icvLengths.includes(icvLength)) {
+    return [
+      error(
+        "transform.icvLength",
+        `${espEncrName} supports an ICV of ${espEncr.icvLengths.join(
+          ", "
+        )} bytes, not ${icvLength}.`
+      ),
+    ];
+  }
+  if (espInte && !espInte.authOnly && !espEncr) {
+    return [
+      error(
+        "transform.espInte",
+        "ESP integrity check can only be selected with an ESP encryption algorithm"
+      ),
+    ];
+  }
+  if (espEncr?.aead && espInte) {
+    return [
+      error(
+        "transform.espInte",
+        `${espEncrName} provides both data confidentiality and integrity protection. Do not select a separate authentication algorithm.`
+      ),
+    ];
+  }
+  if (espEncr && espInte?.authOnly) {
+    return [
+      error(
+        "transform.espInte",
+        `${espInteName} is an authentication-only algorithm and can not be selected with an encryption algorithm.`
+      ),
+    ];
+  }
+  return [];
+}
+
+function validateOverlay({ geneveOptions, l2tpCookie }: OverlaySettings) {
+  const errors: Diagnostic[] = [];
+  if (
+    !(geneveOptions >= 0) ||
+    geneveOptions > MAX_GENEVE_OPTIONS ||
+    geneveOptions % 4 !== 0
+  ) {
+    errors.push(
+      error(
+        "tunnelSetting.geneveOptions",
+        `GENEVE options must be a multiple of 4 bytes between 0 and ${MAX_GENEVE_OPTIONS}`
+      )
+    );
+  }
+  if (!l2tpCookieSizes.includes(l2tpCookie)) {
+    errors.push(
+      error(
+        "tunnelSetting.l2tpCookie",
+        `The L2TPv3 cookie must be ${l2tpCookieSizes.join(", ")} bytes long`
+      )
+    );
+  }
+  return errors;
+}
+
+function validateUnderlay(underlay: UnderlaySettings) {
+  const { linkType, vlanTags, mplsLabels, pppoe } = underlay;
+  const errors: Diagnostic[] = [];
+  for (const [count, name, field] of [
+    [vlanTags, "802.1Q tags", "underlay.vlanTags"],
+    [mplsLabels, "MPLS labels", "underlay.mplsLabels"],
+  ] as const) {
+    if (
+      !(count >= 0) ||
+      count > MAX_STACKED_HEADERS ||
+      !Number.isInteger(count)
+    ) {
+      errors.push(
+        error(
+          field,
+          `Please enter between 0 and ${MAX_STACKED_HEADERS} ${name}`
+        )
+      );
+    }
+  }
+  if (vlanTags > 0 && linkType !== "Ethernet" && !pppoe) {
+    errors.push(
+      error(
+        "underlay.vlanTags",
+        "802.1Q tags can only be added to Ethernet frames."
+      )
+    );
+  }
+  if (pppoe && linkType === "None") {
+    errors.push(
+      error("underlay.pppoe", "PPPoE needs an Ethernet or ATM/AAL5 link.")
+    );
+  }
+  return errors;
+}
+
+/** `tunnelMode` tells whether the ESP payload is a complete IP packet. */
+function validatePadding(padding: PaddingSettings, tunnelMode: boolean) {
+  const { policy, extraPadding, tfcTarget } = padding;
+  const errors: Diagnostic[] = [];
+  if (
+    !(extraPadding >= 0) ||
+    extraPadding > MAX_ESP_PAD ||
+    !Number.isInteger(extraPadding)
+  ) {
+    errors.push(
+      error(
+        "padding.extraPadding",
+        `Please enter between 0 and ${MAX_ESP_PAD} bytes of extra ESP padding`
+      )
+    );
+  } else if (
+    extraPadding > 0 &&
+    !paddingPolicySpecs[policy].supportsExtraPadding
+  ) {
+    errors.push(
+      error(
+        "padding.extraPadding",
+        `${policy} does not support extra ESP padding.`
+      )
+    );
+  }
+  if (
+    !(tfcTarget >= 0) ||
+    tfcTarget > MAX_PACKET_SIZE ||
+    !Number.isInteger(tfcTarget)
+  ) {
+    errors.push(
+      error(
+        "padding.tfcTarget",
+        `Please enter a TFC padding target between 0 and ${MAX_PACKET_SIZE}`
+      )
+    );
+  } else if (tfcTarget > 0) {
+    if (!paddingPolicySpecs[policy].supportsTfc) {
+      errors.push(
+        error("padding.tfcTarget", `${policy} does not support TFC padding.`)
+      );
+    } else if (!tunnelMode) {
+      errors.push(
+        error(
+          "padding.tfcTarget",
+          "TFC padding can only be used in tunnel mode."
+        )
+      );
+    }
+  }
+  return errors;
+}
+
+/** Advisories for deprecated, weak or unprotected transforms (RFC 8221). */
+function transformAdvisories(transform: IFormState["transform"]) {
+  const { espEncr, espInte, ahInte } = transform;
+  const warnings: Diagnostic[] = [];
+  if (espEncr === "ESP-DES/3DES") {
+    warnings.push(
+      warning(
+        "transform.espEncr",
+        "DES and 3DES are deprecated (RFC 8221). Use AES-GCM or AES-CBC instead."
+      )
+    );
+  }
+  if (espEncr === "ESP-NULL") {
+    warnings.push(
+      warning(
+        "transform.espEncr",
+        "ESP-NULL does not encrypt the traffic, it is only integrity protected."
+      )
+    );
+  }
+  if (
+    espEncr !== "None" &&
+    !espEncryptionSpecOf(espEncr)?.aead &&
+    espInte === "None" &&
+    ahInte === "None"
+  ) {
+    warnings.push(
+      warning(
+        "transform.espInte",
+        "Encryption without integrity protection is open to active attacks (RFC 8221)."
+      )
+    );
+  }
+  if (espInte === "ESP-MD5-HMAC") {
+    warnings.push(
+      warning(
+        "transform.espInte",
+        "HMAC-MD5 is deprecated (RFC 8221). Use SHA-256 or stronger instead."
+      )
+    );
+  }
+  if (ahInte === "AH-MD5-HMAC") {
+    warnings.push(
+      warning(
+        "transform.ahInte",
+        "HMAC-MD5 is deprecated (RFC 8221). Use SHA-256 or stronger instead."
+      )
+    );
+  }
+  return warnings;
+}
+
+/**
+ * Checks a form for unsupported combinations and weak algorithms.
+ * Returns every error and advisory found, errors first.
+ */
+export function diagnoseForm(form: IFormState): Diagnostic[] {
+  const { transform, tunnelSetting } = form;
+  const innerErrors = validateInner(form.inner, form.innerProtocol);
+  // The smallest packet size depends on valid inner headers
+  const errors: Diagnostic[] =
+    innerErrors.length > 0
+      ? innerErrors
+      : validatePacketSize(form.packetSize, form.innerProtocol, form.inner);
+  if (
+    transform.espEncr === "None" &&
+    transform.espInte === "None" &&
+    transform.ahInte === "None"
+  ) {
+    errors.push(
+      error(
+        "transform.espEncr",
+        "Packet must use an encryption/authentication algorithm."
+      )
+    );
+  }
+  errors.push(
+    ...validateEspAlgorithms(
+      transform.espEncr,
+      transform.espInte,
+      transform.icvLength
+    )
+  );
+  if (
+    transform.ahInte !== "None" &&
+    espIntegritySpecOf(transform.espInte)?.authOnly
+  ) {
+    errors.push(
+      error(
+        "transform.ahInte",
+        `AH algorithms can not be selected with ${transform.espInte}.`
+      )
+    );
+  }
+  // NAT changes the IP addresses AH protects, and RFC 3948 only covers ESP
+  if (transform.ahInte !== "None" && form.transport.natTraver) {
+    errors.push(
+      error(
+        "transport.natTraver",
+        "AH can not pass through NAT. NAT-T only encapsulates ESP."
+      )
+    );
+  }
+  // RFC 8229 only frames IKE and ESP messages in the TCP stream
+  if (form.transport.tcpEncap) {
+    if (form.transport.natTraver) {
+      errors.push(
+        error(
+          "transport.tcpEncap",
+          "ESP-in-TCP replaces NAT-T. Please select only one of them."
+        )
+      );
+    }
+    if (transform.ahInte !== "None") {
+      errors.push(error("transport.tcpEncap", "ESP-in-TCP can not carry AH."));
+    }
+  }
+  if (tunnelSetting.overlay !== "GRE") {
+    for (const [enabled, name, field] of [
+      [tunnelSetting.greKey, "GRE key", "tunnelSetting.greKey"],
+      [tunnelSetting.greChecksum, "GRE checksum", "tunnelSetting.greChecksum"],
+      [
+        tunnelSetting.greSequence,
+        "GRE sequence number",
+        "tunnelSetting.greSequence",
+      ],
+    ] as const) {
+      if (enabled) {
+        errors.push(
+          error(field, `A ${name} can only be used with the GRE overlay.`)
+        );
+      }
+    }
+  }
+  errors.push(
+    ...validateOverlay(tunnelSetting),
+    ...validateUnderlay(form.underlay),
+    ...validatePadding(form.padding, transform.tunnelMode === "Tunnel")
+  );
+  return [...errors, ...transformAdvisories(transform)];
+}
+
+/**
+ * Checks a form for unsupported combinations.
+ * Returns the first error message, or an empty string when the form is valid.
+ */
+export function validateForm(form: IFormState) {
+  return firstError(diagnoseForm(form));
+}
+
+/**
+ * Checks an encapsulation stack and the inner packet it carries.
+ * Returns an error message, or an empty string when the stack is valid.
+ */
+export function validateStack(
+  packetSize: number,
+  innerProtocol: IPVersion,
+  stack: EncapsulationStack,
+  inner: InnerSettings = defaultFormValues.inner
+) {
+  const sizeError =
+    firstError(validateInner(inner, innerProtocol)) ||
+    firstError(validatePacketSize(packetSize, innerProtocol, inner));
+  if (sizeError) {
+    return sizeError;
+  }
+  if (stack.layers.length > MAX_STACK_LAYERS) {
+    return `A stack can have at most ${MAX_STACK_LAYERS} layers.`;
+  }
+  // Whether the packet starts with an IP header, and whether that header was
+  // added in front of a complete IP packet (tunnel mode)
+  let ipInFront = true;
+  let tunnelHeader = false;
+  // Layers behind the outermost IP header, checked as `diagnoseForm` checks
+  // NAT-T and ESP-in-TCP
+  let espBehindHeader = false;
+  let ahBehindHeader = false;
+  let encapsulation: "NAT-T" | "ESP-in-TCP" | null = null;
+  const encapsulationError = (kind: "NAT-T" | "ESP-in-TCP") =>
+    kind === "NAT-T"
+      ? "AH can not pass through NAT. NAT-T only encapsulates ESP."
+      : "ESP-in-TCP can not carry AH.";
+  for (const [index, layer] of stack.layers.entries()) {
+    const position = `Layer ${index + 1} (${layer.kind})`;
+    if (layer.kind !== "IP" && layer.kind !== "Overlay" && !ipInFront) {
+      return `${position} needs an IP header in front of the packet. Add an IP layer below it.`;
+    }
+    let error = "";
+    switch (layer.kind) {
+      case "IP":
+        tunnelHeader = ipInFront;
+        ipInFront = true;
+        espBehindHeader = false;
+        ahBehindHeader = false;
+        encapsulation = null;
+        continue;
+      case "Overlay":
+        error =
+          layer.overlay.overlay === "None"
+            ? "Please select an overlay type."
+            : firstError(validateOverlay(layer.overlay));
+        ipInFront = false;
+        break;
+      case "NAT-T":
+      case "ESP-in-TCP":
+        if (encapsulation) {
+          error =
+            encapsulation === layer.kind
+              ? `The packet already has a ${layer.kind} header.`
+              : "ESP-in-TCP replaces NAT-T. Please select only one of them.";
+        } else if (!espBehindHeader) {
+          error = `${layer.kind} only encapsulates ESP. Add an ESP layer below it.`;
+        } else if (ahBehindHeader) {
+          error = encapsulationError(layer.kind);
+        }
+        encapsulation = layer.kind;
+        break;
+      case "AH":
+        if (layer.ahInte === "None") {
+          error = "Please select an AH algorithm.";
+        } else if (encapsulation) {
+          error = encapsulationError(encapsulation);
+        }
+        ahBehindHeader = true;
+        break;
+      case "ESP":
+        error =
+          layer.espEncr === "None" && layer.espInte === "None"
+            ? "Please select an ESP algorithm."
+            : encapsulation
+            ? `ESP has to be added below ${encapsulation}, which encapsulates it.`
+            : firstError([
+                ...validateEspAlgorithms(
+                  layer.espEncr,
+                  layer.espInte,
+                  layer.icvLength
+                ),
+                ...validatePadding(layer.padding, tunnelHeader),
+              ]);
+        espBehindHeader = true;
+        break;
+    }
+    if (error) {
+      return `${position}: ${error}`;
+    }
+    tunnelHeader = false;
+  }
+  return firstError(validateUnderlay(stack.underlay));
+}
+
+/**
+ * Checks an underlay MTU against the limits of the outer IP version.
+ * Returns an error message, or an empty string when the MTU is valid.
+ */
+export function validateMtu(pathMtu: number, ipProtocol: IPVersion) {
+  const minMtu = ipProtocol === "IPv4" ? 68 : 1280;
+  const maxMtu = 65535;
+  if (!(pathMtu >= minMtu) || pathMtu > maxMtu || !Number.isInteger(pathMtu)) {
+    return `Please enter a valid ${ipProtocol} MTU between ${minMtu} and ${maxMtu}`;
+  }
+  return "";
+}
@@ -0,0 +1,212 @@
+import { summarizePacket } from "./calculate";
+import {
+  ipHeaderSizeOf,
+  sumBytes,
+  TCP_HDR_SIZE,
+  UDP_HDR_SIZE,
+} from "./constants";
+import { buildFraming } from "./framing";
+import { buildInnerPacket } from "./inner";
+import { IFormState, PacketDetail, PacketResult } from "./types";
+
+export type VpnTechnology =
+  | "WireGuard"
+  | "MACsec"
+  | "MACsec with SCI"
+  | "DTLS 1.2"
+  | "DTLS 1.3"
+  | "OpenVPN UDP"
+  | "OpenVPN TCP";
+
+export const vpnTechnologies: VpnTechnology[] = [
+  "WireGuard",
+  "MACsec",
+  "MACsec with SCI",
+  "DTLS 1.2",
+  "DTLS 1.3",
+  "OpenVPN UDP",
+  "OpenVPN TCP",
+];
+
+/** Cipher assumed for each technology, shown next to its results. */
+export const vpnCiphers: { [name in VpnTechnology]: string } = {
+  WireGuard: "ChaCha20-Poly1305",
+  MACsec: "GCM-AES-128",
+  "MACsec with SCI": "GCM-AES-128",
+  "DTLS 1.2": "AES-128-GCM",
+  "DTLS 1.3": "AES-128-GCM",
+  "OpenVPN UDP": "AES-256-GCM (DATA_V2)",
+  "OpenVPN TCP": "AES-256-GCM (DATA_V2)",
+};
+
+/** Poly1305 and GCM authentication tag. */
+const AEAD_TAG_SIZE = 16;
+/** WireGuard pads the plaintext to a multiple of this size. */
+const WIREGUARD_PAD_ALIGNMENT = 16;
+
+/** Returns the new IP and transport headers a tunnel sends the packet in. */
+function buildTunnelHeaders(
+  form: IFormState,
+  name: string,
+  transport: "UDP" | "TCP"
+): PacketDetail[] {
+  const ipProtocol = form.transport.ipProtocol;
+  return [
+    {
+      bytes: ipHeaderSizeOf(ipProtocol),
+      text: `New ${ipProtocol} Header for ${name}`,
+    },
+    transport === "UDP"
+      ? { bytes: UDP_HDR_SIZE, text: `UDP Header (${name})` }
+      : { bytes: TCP_HDR_SIZE, text: `TCP Header (${name})` },
+  ];
+}
+
+function buildWireGuard(form: IFormState, inner: PacketDetail[]) {
+  const group = "WireGuard Header";
+  const size = sumBytes(inner);
+  const pad =
+    (WIREGUARD_PAD_ALIGNMENT - (size % WIREGUARD_PAD_ALIGNMENT)) %
+    WIREGUARD_PAD_ALIGNMENT;
+  return [
+    ...buildTunnelHeaders(form, "WireGuard", "UDP"),
+    { text: "Type", bytes: 1, group },
+    { text: "Reserved", bytes: 3, group },
+    { text: "Receiver Index", bytes: 4, group },
+    { text: "Counter", bytes: 8, group },
+    ...inner,
+    { text: "WireGuard Padding", bytes: pad, group: "WireGuard Trailer" },
+    { text: "Poly1305 Tag", bytes: AEAD_TAG_SIZE, group: "WireGuard Trailer" },
+  ];
+}
+
+/** Returns the MACsec SecTAG, which follows the MAC addresses. */
+function buildSecTag(withSci: boolean) {
+  const group = "MACsec SecTAG";
+  const secTag: PacketDetail[] = [
+    { text: "MACsec EtherType", bytes: 2, group },
+    { text: "TCI/AN", bytes: 1, group },
+    { text: "Short Length", bytes: 1, group },
+    { text: "Packet Number", bytes: 4, group },
+  ];
+  if (withSci) {
+    secTag.push({ text: "SCI", bytes: 8, group });
+  }
+  return secTag;
+}
+
+function buildDtls(
+  form: IFormState,
+  version: "1.2" | "1.3",
+  inner: PacketDetail[]
+) {
+  const header = "DTLS Record Header";
+  const trailer = "DTLS Trailer";
+  if (version === "1.2") {
+    return [
+      ...buildTunnelHeaders(form, "DTLS", "UDP"),
+      { text: "Content Type", bytes: 1, group: header },
+      { text: "Version", bytes: 2, group: header },
+      { text: "Epoch", bytes: 2, group: header },
+      { text: "Sequence Number", bytes: 6, group: header },
+      { text: "Length", bytes: 2, group: header },
+      { text: "Explicit Nonce", bytes: 8, group: header },
+      ...inner,
+      { text: "GCM Tag", bytes: AEAD_TAG_SIZE, group: trailer },
+    ];
+  }
+  // Unified header with a 16-bit sequence number and length, no connection ID
+  return [
+    ...buildTunnelHeaders(form, "DTLS", "UDP"),
+    { text: "Unified Header Flags", bytes: 1, group: header },
+    { text: "Sequence Number", bytes: 2, group: header },
+    { text: "Length", bytes: 2, group: header },
+    ...inner,
+    { text: "Inner Content Type", bytes: 1, group: trailer },
+    { text: "GCM Tag", bytes: AEAD_TAG_SIZE, group: trailer },
+  ];
+}
+
+function buildOpenVpn(
+  form: IFormState,
+  transport: "UDP" | "TCP",
+  inner: PacketDetail[]
+) {
+  const group = "OpenVPN Header";
+  // AEAD data channel packets carry the tag in front of the ciphertext
+  const fields: PacketDetail[] = buildTunnelHeaders(form, "OpenVPN", transport);
+  // TCP is a byte stream, so every packet is prefixed with its length
+  if (transport === "TCP") {
+    fields.push({ text: "Packet Length", bytes: 2, group });
+  }
+  fields.push(
+    { text: "Opcode/Key ID", bytes: 1, group },
+    { text: "Peer ID", bytes: 3, group },
+    { text: "Packet ID", bytes: 4, group },
+    { text: "GCM Tag", bytes: AEAD_TAG_SIZE, group },
+    ...inner
+  );
+  return fields;
+}
+
+/**
+ * Calculates the inner packet of the form carried by another VPN or link
+ * encryption technology instead of IPsec. The outer IP version and underlay
+ * of the form are used; MACsec is always carried in Ethernet.
+ * The form is expected to pass `validateForm`.
+ */
+export function calculateVpn(
+  form: IFormState,
+  technology: VpnTechnology
+): PacketResult {
+  const inner = buildInnerPacket(
+    form.packetSize,
+    form.innerProtocol,
+    form.inner
+  );
+  const summarize = (fields: PacketDetail[]) =>
+    summarizePacket(
+      fields,
+      form.packetSize,
+      form.innerProtocol,
+      form.inner,
+      []
+    );
+  const framed = (packet: PacketDetail[]) => {
+    const framing = buildFraming(form.underlay, sumBytes(packet));
+    return summarize([...framing.header, ...packet, ...framing.trailer]);
+  };
+
+  switch (technology) {
+    case "WireGuard":
+      return framed(buildWireGuard(form, inner));
+    case "MACsec":
+    case "MACsec with SCI": {
+      const secTag = buildSecTag(technology === "MACsec with SCI");
+      const icv = { text: "MACsec ICV", bytes: AEAD_TAG_SIZE };
+      const framing = buildFraming(
+        { ...form.underlay, linkType: "Ethernet" },
+        sumBytes([...secTag, ...inner, icv])
+      );
+      // The SecTAG goes right behind the MAC addresses, before any VLAN tags
+      const ethernet =
+        framing.header.findIndex(({ text }) => text === "Ethernet Header") + 1;
+      return summarize([
+        ...framing.header.slice(0, ethernet),
+        ...secTag,
+        ...framing.header.slice(ethernet),
+        ...inner,
+        icv,
+        ...framing.trailer,
+      ]);
+    }
+    case "DTLS 1.2":
+      return framed(buildDtls(form, "1.2", inner));
+    case "DTLS 1.3":
+      return framed(buildDtls(form, "1.3", inner));
+    case "OpenVPN UDP":
+      return framed(buildOpenVpn(form, "UDP", inner));
+    case "OpenVPN TCP":
+      return framed(buildOpenVpn(form, "TCP", inner));
+  }
+}
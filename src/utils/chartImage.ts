@@ -0,0 +1,77 @@
+import { PacketLayer } from "../lib";
+import { packetColorOf } from "../components/packetColors";
+
+/** Height of an exported chart in pixels. */
+export const CHART_IMAGE_HEIGHT = 90;
+
+const escapeXml = (text: string) =>
+  text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+/**
+ * Draws the layers of a packet as a standalone SVG document, laid out like
+ * `PacketChart` but with plain text labels so it renders outside the page.
+ */
+export function packetChartSvg(
+  layers: PacketLayer[],
+  width: number,
+  scaleBytes: number
+) {
+  let boxPos = 1;
+  const boxes = layers.map((layer, index) => {
+    const boxWidth = Math.max(
+      Math.floor(width * (layer.size / scaleBytes)) - 1,
+      0
+    );
+    const box = [
+      `<clipPath id="box${index}"><rect x="${boxPos}" y="2" width="${boxWidth}" height="80"/></clipPath>`,
+      `<rect x="${boxPos}" y="2" width="${boxWidth}" height="80" fill="${packetColorOf(
+        layer.label
+      )}" stroke="black"/>`,
+      `<text x="${
+        boxPos + 3
+      }" y="18" font-family="sans-serif" font-size="12" clip-path="url(#box${index})">`,
+      `<tspan x="${boxPos + 3}">${escapeXml(layer.label)}</tspan>`,
+      `<tspan x="${boxPos + 3}" dy="16">${layer.size} B</tspan>`,
+      "</text>",
+    ].join("");
+    boxPos += boxWidth;
+    return box;
+  });
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${CHART_IMAGE_HEIGHT}" viewBox="0 0 ${width} ${CHART_IMAGE_HEIGHT}">`,
+    `<rect width="100%" height="100%" fill="white"/>`,
+    ...boxes,
+    "</svg>",
+  ].join("\n");
+}
+
+/** Renders an SVG document to a PNG image, passed to `onDone`. */
+export function svgToPng(
+  svg: string,
+  width: number,
+  height: number,
+  onDone: (png: Blob) => void
+) {
+  const url = URL.createObjectURL(new Blob([svg], { type: "image/svg+xml" }));
+  const image = new Image();
+  image.onload = () => {
+    // Drawn at twice the size so the labels stay sharp
+    const canvas = document.createElement("canvas");
+    canvas.width = width * 2;
+    canvas.height = height * 2;
+    const context = canvas.getContext("2d");
+    context?.scale(2, 2);
+    context?.drawImage(image, 0, 0);
+    URL.revokeObjectURL(url);
+    canvas.toBlob((png) => {
+      if (png) {
+        onDone(png);
+      }
+    }, "image/png");
+  };
+  image.src = url;
+}
@@ -0,0 +1,14 @@
+/** Saves a blob as a file through a temporary download link. */
+export function downloadBlob(fileName: string, blob: Blob) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+/** Saves text content as a file through a temporary download link. */
+export function downloadFile(fileName: string, content: string, type: string) {
+  downloadBlob(fileName, new Blob([content], { type }));
+}
@@ -0,0 +1,14 @@
+import { defineConfig } from 'vite'
+
+// Builds the calculator engine in src/lib as a standalone package entry point.
+export default defineConfig({
+  build: {
+    outDir: 'dist-lib',
+    emptyOutDir: false,
+    lib: {
+      entry: 'src/lib/index.ts',
+      formats: ['es', 'cjs'],
+      fileName: 'ipsec-overhead',
+    },
+  },
+})